@@ -0,0 +1,462 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import App from './App';
+import { TaskType } from './types';
+import { setTransport } from './services/geminiService';
+import { GeminiTransport, toContentResponse, toVideosOperation } from './services/transport';
+import { createFakeTransport, textResponse } from './test/fakeTransport';
+import { createSession, deleteSession, deleteVideoJob, listSessions, listVideoJobs, saveSession } from './services/storageService';
+
+const submit = (prompt: string) => {
+  const input = screen.getByPlaceholderText(/Describe your task/);
+  fireEvent.change(input, { target: { value: prompt } });
+  fireEvent.submit(input.closest('form')!);
+};
+
+const routeTo = (type: TaskType, model: string, extra: Partial<GeminiTransport> = {}) => {
+  setTransport(createFakeTransport({ type, model, reasoning: 'Test route.', refinedPrompt: 'refined prompt' }, extra));
+};
+
+// Sessions persist in IndexedDB across tests; start each one without any
+afterEach(async () => {
+  await Promise.all((await listSessions()).map(s => deleteSession(s.id)));
+  await Promise.all((await listVideoJobs()).map(j => deleteVideoJob(j.id)));
+});
+
+describe('sessions', () => {
+  it('keeps a chat started before saved sessions finish loading', async () => {
+    await saveSession({ ...createSession([{ id: 'old', role: 'user', content: 'an older question', timestamp: 1 }]), id: 'older', name: 'Earlier chat' });
+    routeTo(TaskType.TEXT, 'gemini-3-flash-preview');
+    render(<App />);
+    submit('explain gravity');
+
+    expect(await screen.findByText(/Streaming stub response from gemini-3-flash-preview/)).toBeTruthy();
+    expect(await screen.findByText('Earlier chat')).toBeTruthy();
+    expect(screen.queryByText('an older question')).toBeNull();
+  });
+});
+
+describe('handleSubmit', () => {
+  it('streams TEXT responses into the message', async () => {
+    routeTo(TaskType.TEXT, 'gemini-3-flash-preview');
+    render(<App />);
+    submit('explain gravity');
+
+    expect(await screen.findByText(/Streaming stub response from gemini-3-flash-preview/)).toBeTruthy();
+  });
+
+  it('renders code blocks, tables and math in TEXT responses', async () => {
+    routeTo(TaskType.TEXT, 'gemini-3-pro-preview', {
+      async generateContentStream() {
+        return (async function* () {
+          yield textResponse('```python\nprint("hi")\n```\n\n| a | b |\n|---|---|\n| 1 | 2 |\n\n$$E = mc^2$$');
+        })();
+      },
+    });
+    const { container } = render(<App />);
+    submit('write some code');
+
+    await screen.findByText('python');
+    expect(screen.getByTitle('Copy code')).toBeTruthy();
+    expect(container.querySelector('pre code.hljs')?.textContent).toBe('print("hi")\n');
+    expect(container.querySelector('table td')?.textContent).toBe('1');
+    expect(container.querySelector('.katex')).toBeTruthy();
+  });
+
+  it('answers as the active persona', async () => {
+    localStorage.setItem('nexus-personas', JSON.stringify([
+      { id: 'pirate', name: 'Pirate', systemInstruction: 'Talk like a pirate.', greeting: 'Ahoy!' },
+    ]));
+    localStorage.setItem('nexus-active-persona', 'pirate');
+    const configs: any[] = [];
+    routeTo(TaskType.TEXT, 'gemini-3-flash-preview', {
+      async generateContentStream(params) {
+        configs.push(params.config);
+        return (async function* () { yield textResponse('Arr.'); })();
+      },
+    });
+    render(<App />);
+    expect(await screen.findByText('Ahoy!')).toBeTruthy();
+    submit('hello');
+
+    expect(await screen.findByText('Arr.')).toBeTruthy();
+    expect(configs[0].systemInstruction).toBe('Talk like a pirate.');
+    expect(screen.getByText('Pirate', { selector: 'span' })).toBeTruthy();
+  });
+
+  it('shows tool calls as collapsible steps', async () => {
+    let round = 0;
+    routeTo(TaskType.TEXT, 'gemini-3-flash-preview', {
+      async generateContentStream() {
+        const reply = round++ === 0
+          ? textResponse('', { content: { role: 'model', parts: [{ functionCall: { name: 'calculator', args: { expression: '2 + 2' } } }] } })
+          : textResponse('It is 4.');
+        return (async function* () { yield reply; })();
+      },
+    });
+    render(<App />);
+    submit('what is 2 + 2');
+
+    expect(await screen.findByText('It is 4.')).toBeTruthy();
+    fireEvent.click(screen.getByText('calculator'));
+    expect(screen.getByText('Result')).toBeTruthy();
+    expect(screen.getByText(/"result": 4/)).toBeTruthy();
+  });
+
+  it('shows grounding sources, inline citations and queries for SEARCH responses', async () => {
+    routeTo(TaskType.SEARCH, 'gemini-3-flash-preview', {
+      async generateContentStream() {
+        return (async function* () {
+          yield textResponse('Sunny today.', {
+            groundingMetadata: {
+              groundingChunks: [{ web: { uri: 'https://weather.example.com', title: 'Weather Example' } }],
+              groundingSupports: [{ segment: { text: 'Sunny today.' }, groundingChunkIndices: [0] }],
+              webSearchQueries: ['weather today'],
+            },
+          });
+        })();
+      },
+    });
+    render(<App />);
+    submit('weather today');
+
+    const link = await screen.findByText('Weather Example');
+    expect(link.closest('a')?.getAttribute('href')).toBe('https://weather.example.com');
+    const marker = screen.getByTitle('Weather Example (weather.example.com)');
+    expect(marker.textContent).toBe('1');
+    expect(marker.getAttribute('href')).toBe('https://weather.example.com');
+    expect(screen.getByText('Searched:')).toBeTruthy();
+  });
+
+  it('sends only as much history as the context window allows', async () => {
+    const streamRequests: any[] = [];
+    routeTo(TaskType.TEXT, 'gemini-3-flash-preview', {
+      async generateContentStream(params) {
+        streamRequests.push(params);
+        return (async function* () { yield textResponse(`Answer ${streamRequests.length}.`); })();
+      },
+    });
+    render(<App />);
+
+    fireEvent.click(screen.getByTitle('Generation settings'));
+    fireEvent.change(screen.getByLabelText('Earlier messages to include'), { target: { value: '1' } });
+    fireEvent.click(screen.getByText('Save'));
+    expect(JSON.parse(localStorage.getItem('nexus-context-window')!).maxTurns).toBe(1);
+
+    submit('first question');
+    await screen.findByText('Answer 1.');
+    submit('second question');
+    await screen.findByText('Answer 2.');
+
+    // Only the previous answer fits, and a leading model turn is dropped
+    expect(streamRequests[1].contents).toEqual([{ role: 'user', parts: [{ text: 'refined prompt' }] }]);
+  });
+
+  it('renders IMAGE responses', async () => {
+    routeTo(TaskType.IMAGE, 'gemini-2.5-flash-image');
+    render(<App />);
+    submit('draw a fox');
+
+    const image = await screen.findByAltText('Generated content');
+    expect(image.getAttribute('src')).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('sends the previous image back for follow-up edits', async () => {
+    const imageRequests: any[] = [];
+    const fake = createFakeTransport({
+      type: TaskType.IMAGE,
+      model: 'gemini-2.5-flash-image',
+      reasoning: 'Edit.',
+      refinedPrompt: 'make the sky purple',
+      usePreviousImage: true,
+    });
+    setTransport({
+      ...fake,
+      async generateContent(operation, params, signal) {
+        if (operation === 'image') imageRequests.push(params.contents);
+        return fake.generateContent(operation, params, signal);
+      },
+    });
+    render(<App />);
+
+    submit('draw a beach');
+    await screen.findByAltText('Generated content');
+    submit('make the sky purple');
+    await waitFor(() => expect(imageRequests).toHaveLength(2));
+
+    // The first request has nothing to edit; the follow-up carries the image inline
+    expect(typeof imageRequests[0]).toBe('string');
+    expect(imageRequests[1][0].parts[1].inlineData.mimeType).toBe('image/png');
+  });
+
+  it('sends attachments without a message', async () => {
+    const streamRequests: any[] = [];
+    routeTo(TaskType.TEXT, 'gemini-3-flash-preview', {
+      async generateContentStream(params) {
+        streamRequests.push(params);
+        return (async function* () { yield textResponse('A photo.'); })();
+      },
+    });
+    const { container } = render(<App />);
+
+    const file = new File(['png'], 'photo.png', { type: 'image/png' });
+    fireEvent.change(container.querySelector('input[type="file"][multiple]')!, { target: { files: [file] } });
+    await screen.findByAltText('photo.png');
+    submit('  ');
+
+    expect(await screen.findByText('A photo.')).toBeTruthy();
+    expect(screen.getByText('Respond to the attached files.', { selector: 'p' })).toBeTruthy();
+    expect(streamRequests[0].contents.at(-1).parts[1].inlineData.mimeType).toBe('image/png');
+  });
+
+  it('keeps the source image when regenerating an edit with another model', async () => {
+    const imageRequests: any[] = [];
+    const fake = createFakeTransport({ type: TaskType.IMAGE, model: 'gemini-2.5-flash-image', reasoning: 'Edit.', refinedPrompt: 'make it blue' });
+    setTransport({
+      ...fake,
+      async generateContent(operation, params, signal) {
+        if (operation === 'image') imageRequests.push(params);
+        return fake.generateContent(operation, params, signal);
+      },
+    });
+    const { container } = render(<App />);
+
+    const file = new File(['png'], 'photo.png', { type: 'image/png' });
+    fireEvent.change(container.querySelector('input[type="file"][multiple]')!, { target: { files: [file] } });
+    await screen.findByAltText('photo.png');
+    submit('make it blue');
+    await screen.findByAltText('Generated content');
+
+    fireEvent.click(screen.getByTitle('Regenerate with another model'));
+    fireEvent.click(screen.getByText('Gemini 3 Pro Image'));
+    await waitFor(() => expect(imageRequests).toHaveLength(2));
+
+    expect(imageRequests[1].model).toBe('gemini-3-pro-image-preview');
+    expect(imageRequests[1].contents[0].parts[1].inlineData.mimeType).toBe('image/png');
+  });
+
+  it('sends the original request only once when regenerating', async () => {
+    const streamRequests: any[] = [];
+    const fake = createFakeTransport({ type: TaskType.TEXT, model: 'gemini-3-flash-preview', reasoning: 'Text.', refinedPrompt: 'refined prompt' });
+    setTransport({
+      ...fake,
+      async generateContentStream(params, signal) {
+        streamRequests.push(params);
+        return fake.generateContentStream(params, signal);
+      },
+    });
+    render(<App />);
+    submit('explain gravity');
+    await screen.findByText(/Streaming stub response from gemini-3-flash-preview/);
+
+    fireEvent.click(screen.getByTitle('Regenerate with another model'));
+    fireEvent.click(screen.getAllByText('Gemini 3 Pro')[0].closest('button')!);
+    await waitFor(() => expect(streamRequests).toHaveLength(2));
+
+    expect(streamRequests[1].model).toBe('gemini-3-pro-preview');
+    expect(streamRequests[1].contents).toEqual([{ role: 'user', parts: [{ text: 'refined prompt' }] }]);
+  });
+
+  it('renders VIDEO responses', async () => {
+    routeTo(TaskType.VIDEO, 'veo-3.1-fast-generate-preview');
+    const { container } = render(<App />);
+    submit('make a video of a sunset');
+
+    await waitFor(() => expect(container.querySelector('video source')?.getAttribute('src')).toBe('blob:test'));
+  });
+
+  it('keeps the chat usable while a video renders and lets it be cancelled', async () => {
+    // The operation never finishes on its own
+    routeTo(TaskType.VIDEO, 'veo-3.1-fast-generate-preview', {
+      generateVideos: async () => toVideosOperation({ name: 'operations/slow', done: false }),
+      getVideosOperation: async (name) => toVideosOperation({ name, done: false }),
+    });
+    render(<App />);
+    submit('make a video of a sunset');
+
+    expect(await screen.findByText('Rendering video')).toBeTruthy();
+    // The request itself is over, so only the job's own Cancel button is shown
+    await waitFor(() => expect(screen.getAllByText('Cancel')).toHaveLength(1));
+
+    fireEvent.click(screen.getByText('Cancel'));
+    expect(await screen.findByText('Video generation cancelled')).toBeTruthy();
+    expect(screen.getByText('Retry')).toBeTruthy();
+  });
+
+  it('attaches AUDIO responses for playback', async () => {
+    routeTo(TaskType.AUDIO, 'gemini-2.5-flash-preview-tts');
+    render(<App />);
+    submit('say hello');
+
+    expect(await screen.findByText('Here is the audio playback for your text.')).toBeTruthy();
+    expect(screen.getByText('Download WAV').closest('a')?.getAttribute('download')).toMatch(/^refined-prompt-\d{8}-\d{6}\.wav$/);
+  });
+
+  it('labels the audio download with the format it comes in', async () => {
+    const fake = createFakeTransport({ type: TaskType.AUDIO, model: 'gemini-2.5-flash-preview-tts', reasoning: 'Speech.', refinedPrompt: 'refined prompt' });
+    setTransport({
+      ...fake,
+      async generateContent(operation, params, signal) {
+        return operation === 'tts'
+          ? toContentResponse({ candidates: [{ content: { role: 'model', parts: [{ inlineData: { mimeType: 'audio/mpeg', data: 'SUQz' } }] } }] })
+          : fake.generateContent(operation, params, signal);
+      },
+    });
+    render(<App />);
+    submit('say hello');
+
+    const link = (await screen.findByText('Download MP3')).closest('a');
+    expect(link?.getAttribute('download')).toMatch(/\.mp3$/);
+    expect(screen.queryByText('Download WAV')).toBeNull();
+  });
+
+  it('shows the error when execution fails', async () => {
+    routeTo(TaskType.IMAGE, 'gemini-2.5-flash-image', {
+      async generateContent(operation) {
+        if (operation === 'orchestrate') {
+          return textResponse(JSON.stringify({ type: TaskType.IMAGE, model: 'gemini-2.5-flash-image', reasoning: '', refinedPrompt: 'x' }));
+        }
+        return textResponse('no image here');
+      },
+    });
+    render(<App />);
+    submit('draw a fox');
+
+    expect(await screen.findByText(/No image data returned/)).toBeTruthy();
+  });
+
+  it('explains a safety block and offers a rephrased prompt', async () => {
+    let orchestrateCalls = 0;
+    routeTo(TaskType.IMAGE, 'gemini-2.5-flash-image', {
+      async generateContent(operation) {
+        if (operation === 'orchestrate') {
+          return orchestrateCalls++ === 0
+            ? textResponse(JSON.stringify({ type: TaskType.IMAGE, model: 'gemini-2.5-flash-image', reasoning: '', refinedPrompt: 'a knight slaying a dragon, gore' }))
+            : textResponse(JSON.stringify({ rephrased: 'a knight facing a dragon, storybook style' }));
+        }
+        return textResponse('', { finishReason: 'IMAGE_SAFETY' });
+      },
+    });
+    render(<App />);
+    submit('draw a knight slaying a dragon, gore');
+
+    expect(await screen.findByText(/generated image was flagged by the safety filters/)).toBeTruthy();
+    fireEvent.click(await screen.findByText('Use this prompt'));
+    expect((screen.getByPlaceholderText(/Describe your task/) as HTMLTextAreaElement).value).toBe('a knight facing a dragon, storybook style');
+    expect(screen.queryByText(/No image data returned/)).toBeNull();
+  });
+});
+
+describe('voice input', () => {
+  // Records a short clip as soon as it is stopped
+  class FakeRecorder {
+    static isTypeSupported = () => true;
+    mimeType = 'audio/webm';
+    state = 'inactive';
+    ondataavailable: ((e: { data: Blob }) => void) | null = null;
+    onstop: (() => void) | null = null;
+    constructor(public stream: MediaStream) {}
+    start() { this.state = 'recording'; }
+    stop() {
+      this.state = 'inactive';
+      this.ondataavailable?.({ data: new Blob(['voice'], { type: 'audio/webm' }) });
+      this.onstop?.();
+    }
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('transcribes a recording into a previewed prompt', async () => {
+    vi.stubGlobal('MediaRecorder', FakeRecorder);
+    vi.stubGlobal('navigator', { ...navigator, mediaDevices: { getUserMedia: async () => ({ getTracks: () => [] }) } });
+    routeTo(TaskType.TEXT, 'gemini-3-flash-preview');
+    render(<App />);
+
+    fireEvent.click(screen.getByTitle('Record a voice prompt'));
+    fireEvent.click(await screen.findByTitle('Stop recording'));
+
+    expect(await screen.findByText(/Transcribe this recording verbatim/)).toBeTruthy();
+    fireEvent.click(screen.getByText('Send'));
+    expect(await screen.findByText(/Streaming stub response from gemini-3-flash-preview/)).toBeTruthy();
+  });
+
+  it('sends files attached while the recording was running', async () => {
+    vi.stubGlobal('MediaRecorder', FakeRecorder);
+    vi.stubGlobal('navigator', { ...navigator, mediaDevices: { getUserMedia: async () => ({ getTracks: () => [] }) } });
+    localStorage.setItem('nexus-voice-preferences', JSON.stringify({ autoSubmit: true }));
+    const streamRequests: any[] = [];
+    routeTo(TaskType.TEXT, 'gemini-3-flash-preview', {
+      async generateContentStream(params) {
+        streamRequests.push(params);
+        return (async function* () { yield textResponse('Nice photo.'); })();
+      },
+    });
+    const { container } = render(<App />);
+
+    fireEvent.click(screen.getByTitle('Record a voice prompt'));
+    const stop = await screen.findByTitle('Stop recording');
+    const file = new File(['png'], 'photo.png', { type: 'image/png' });
+    fireEvent.change(container.querySelector('input[type="file"][multiple]')!, { target: { files: [file] } });
+    await screen.findByAltText('photo.png');
+    fireEvent.click(stop);
+
+    expect(await screen.findByText('Nice photo.')).toBeTruthy();
+    const parts = streamRequests[0].contents.at(-1).parts;
+    expect(parts.some((p: any) => p.inlineData?.mimeType === 'image/png')).toBe(true);
+  });
+
+  it('cancels a running transcription', async () => {
+    vi.stubGlobal('MediaRecorder', FakeRecorder);
+    vi.stubGlobal('navigator', { ...navigator, mediaDevices: { getUserMedia: async () => ({ getTracks: () => [] }) } });
+    let transcriptionSignal: AbortSignal | undefined;
+    routeTo(TaskType.TEXT, 'gemini-3-flash-preview', {
+      generateContent(operation, params, signal) {
+        transcriptionSignal = signal;
+        return new Promise((_, reject) => signal?.addEventListener('abort', () => reject(new DOMException('stop', 'AbortError'))));
+      },
+    });
+    render(<App />);
+
+    fireEvent.click(screen.getByTitle('Record a voice prompt'));
+    fireEvent.click(await screen.findByTitle('Stop recording'));
+    await screen.findByText('Transcribing…');
+    fireEvent.click(screen.getByText('Cancel'));
+
+    await waitFor(() => expect(screen.queryByText('Transcribing…')).toBeNull());
+    expect(transcriptionSignal?.aborted).toBe(true);
+    expect(screen.queryByText(/cancelled/i)).toBeNull();
+  });
+
+  it('reads TEXT answers aloud when reply by voice is on', async () => {
+    localStorage.setItem('nexus-voice-preferences', JSON.stringify({ replyByVoice: true }));
+    routeTo(TaskType.TEXT, 'gemini-3-flash-preview');
+    render(<App />);
+    submit('explain gravity');
+
+    expect(await screen.findByText('Download WAV')).toBeTruthy();
+    expect(screen.getByText(/Streaming stub response from gemini-3-flash-preview/)).toBeTruthy();
+  });
+});
+
+describe('media library', () => {
+  it('lists generated media and jumps back to its message', async () => {
+    routeTo(TaskType.IMAGE, 'gemini-2.5-flash-image');
+    const { container } = render(<App />);
+    submit('draw a fox');
+    await screen.findByAltText('Generated content');
+
+    fireEvent.click(screen.getByTitle('Media library'));
+    const gallery = within(screen.getByText('Media library').closest('div')!.parentElement!);
+    expect(gallery.getByText('refined prompt')).toBeTruthy();
+    fireEvent.click(gallery.getByText('Audio'));
+    expect(gallery.getByText('Nothing matches these filters.')).toBeTruthy();
+    fireEvent.click(gallery.getByText('All'));
+
+    fireEvent.click(gallery.getByTitle('Show in conversation'));
+    expect(screen.queryByText('Media library')).toBeNull();
+    expect(container.querySelector('.ring-2 img')?.getAttribute('alt')).toBe('Generated content');
+  });
+});
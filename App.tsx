@@ -1,15 +1,75 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Sparkles, AlertCircle } from 'lucide-react';
+import { Send, Sparkles, AlertCircle, Square, PanelLeft, X, Paperclip, SlidersHorizontal, BarChart3, Mic, Loader2, Users, LayoutGrid } from 'lucide-react';
 import { 
   orchestrateRequest, 
-  generateTextResponse, 
+  streamTextResponse, 
   generateImageResponse, 
-  generateVideoResponse, 
-  generateAudioResponse 
+  generateAudioResponse,
+  transcribeAudio,
+  suggestRephrase
 } from './services/geminiService';
-import { Message, TaskType } from './types';
+import { loadContextWindow, saveContextWindow } from './services/historyService';
+import { 
+  DEFAULT_SESSION_NAME, 
+  createSession, 
+  listSessions, 
+  saveSession, 
+  deleteSession,
+  listVideoJobs,
+  saveVideoJob,
+  deleteVideoJob
+} from './services/storageService';
+import { createVideoJob, resetVideoJob, runVideoJob } from './services/videoJobService';
+import { ExportFormat, downloadText, exportFileName, parseJsonExport, toHtml, toJsonExport, toMarkdown } from './services/exportService';
+import { extractGrounding } from './services/citationService';
+import { listTools } from './services/toolService';
+import {
+  DEFAULT_PERSONA,
+  applyPersonaModel,
+  applyPersonaVoice,
+  findPersona,
+  getGreeting,
+  getSystemInstruction,
+  listPersonas,
+  loadActivePersonaId,
+  loadPersonas,
+  loadTemplates,
+  saveActivePersonaId,
+  savePersonas,
+  saveTemplates
+} from './services/personaService';
+import { describeError } from './services/requestService';
+import { SafetyBlockedError } from './services/safetyService';
+import {
+  TRANSCRIPTION_MODEL,
+  VOICE_MESSAGE_PROMPT,
+  VoicePreferences,
+  getVoiceReplyModel,
+  loadVoicePreferences,
+  saveVoicePreferences,
+  toSpeakableText
+} from './services/voiceService';
+import { ACCEPTED_ATTACHMENT_TYPES, ATTACHMENT_ONLY_PROMPT, readAttachment } from './services/attachmentService';
+import { getPlanSteps, resolveStepInput } from './services/planService';
+import { buildVariationPrompt, findPreviousImage } from './services/imageService';
+import { validateSpeakers } from './services/speechService';
+import { loadTaskSettings, mergeSettings, resolveSettings, saveTaskSettings } from './services/settingsService';
+import { getRoutingModes, matchSlashCommands, parseSlashCommand } from './services/commandService';
+import { getModel } from './services/modelRegistry';
+import { checkBudget, estimateRequestCost, recordUsage } from './services/usageService';
+import { Message, TaskType, ContextWindow, ChatSession, Attachment, OrchestrationDecision, MediaItem, SafetyInfo, StepOutput, TaskSettings, UsageRecord, VideoJob, Persona, PromptTemplate } from './types';
 import { ChatMessage } from './components/ChatMessage';
 import { ThinkingIndicator } from './components/ThinkingIndicator';
+import { SessionSidebar } from './components/SessionSidebar';
+import { AttachmentList } from './components/AttachmentList';
+import { SettingsPanel } from './components/SettingsPanel';
+import { UsageDashboard } from './components/UsageDashboard';
+import { ExportMenu } from './components/ExportMenu';
+import { VoiceInputButton } from './components/VoiceInputButton';
+import { VoiceSettingsMenu } from './components/VoiceSettingsMenu';
+import { LibraryPanel } from './components/LibraryPanel';
+import { MediaGallery } from './components/MediaGallery';
+import { TemplateMenu } from './components/TemplateMenu';
 
 // Extend window for AI Studio check
 declare global {
@@ -22,22 +82,101 @@ declare global {
   }
 }
 
+const createWelcomeMessage = (persona: Persona): Message => ({
+  id: 'welcome',
+  role: 'assistant',
+  content: getGreeting(persona),
+  timestamp: Date.now()
+});
+
 export default function App() {
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 'welcome',
-      role: 'assistant',
-      content: "I'm Nexus, your AI Orchestrator. Tell me what you need, and I'll route it to the perfect Gemini model—whether it's generating 4K images, Veo videos, speech, or complex reasoning.",
-      timestamp: Date.now()
-    }
-  ]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [personas, setPersonas] = useState<Persona[]>(loadPersonas);
+  const [activePersonaId, setActivePersonaId] = useState(loadActivePersonaId);
+  const [templates, setTemplates] = useState<PromptTemplate[]>(loadTemplates);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [messages, setMessages] = useState<Message[]>(() => [createWelcomeMessage(findPersona(personas, activePersonaId))]);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [taskSettings, setTaskSettings] = useState<TaskSettings>(loadTaskSettings);
+  const [settingsOverride, setSettingsOverride] = useState<TaskSettings | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [routingModeId, setRoutingModeId] = useState('auto');
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingStep, setLoadingStep] = useState<'orchestrating' | 'generating' | null>(null);
   const [currentModel, setCurrentModel] = useState<string | undefined>();
   const [currentTask, setCurrentTask] = useState<string | undefined>();
+  const [planProgress, setPlanProgress] = useState<{ current: number; total: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [contextWindow, setContextWindow] = useState<ContextWindow>(loadContextWindow);
+  const [videoJobs, setVideoJobs] = useState<VideoJob[]>([]);
+  const [voicePreferences, setVoicePreferences] = useState<VoicePreferences>(loadVoicePreferences);
+  const [voiceTranscript, setVoiceTranscript] = useState<string | null>(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const requestControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const jobControllersRef = useRef(new Map<string, AbortController>());
+
+  // Background jobs finish after the render that started them, so they read the latest state from refs
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+  // Voice input sends files attached while it was recording or transcribing
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+
+  const isStreaming = messages.some(m => m.isStreaming);
+  const allPersonas = listPersonas(personas);
+  const activePersona = findPersona(allPersonas, activePersonaId);
+  const routingModes = getRoutingModes();
+  const selectedMode = routingModes.find(m => m.id === routingModeId) || routingModes[0];
+  const commandHints = matchSlashCommands(input);
+
+  const updateMessage = (id: string, patch: Partial<Message>) => {
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+  };
+
+  // Cancels whatever is in flight: routing, a stream or a long-running generation
+  const handleCancel = () => {
+    requestControllerRef.current?.abort();
+  };
+
+  // Shared by the file picker, drag-and-drop and paste
+  const addFiles = async (files: FileList | File[]) => {
+    const list = Array.from(files);
+    if (list.length === 0) return;
+    try {
+      const added = await Promise.all(list.map(readAttachment));
+      setAttachments(prev => [...prev, ...added]);
+    } catch (err: any) {
+      setError(err.message || "Could not read the attached file.");
+    }
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(a => a.id !== id));
+  };
+
+  const handleSaveSettings = (settings: TaskSettings, scope: 'default' | 'next', nextContextWindow: ContextWindow) => {
+    saveContextWindow(nextContextWindow);
+    setContextWindow(loadContextWindow());
+    if (scope === 'next') {
+      setSettingsOverride(settings);
+    } else {
+      setTaskSettings(settings);
+      setSettingsOverride(null);
+      saveTaskSettings(settings);
+    }
+    setIsSettingsOpen(false);
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -47,6 +186,250 @@ export default function App() {
     scrollToBottom();
   }, [messages, loadingStep]);
 
+  // A message opened from the media library is scrolled to and briefly highlighted
+  useEffect(() => {
+    if (!focusedMessageId) return;
+    document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setFocusedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [focusedMessageId]);
+
+  // Restore saved sessions on startup, or start a fresh one. A chat the user
+  // began before storage answered gets its own session instead of being replaced.
+  useEffect(() => {
+    listSessions()
+      .then(stored => {
+        const hasStarted = messagesRef.current.some(m => m.role === 'user');
+        if (stored.length > 0 && !hasStarted) {
+          setSessions(stored);
+          setActiveSessionId(stored[0].id);
+          setMessages(stored[0].messages);
+        } else {
+          const session = createSession(messagesRef.current);
+          setSessions([session, ...stored]);
+          setActiveSessionId(session.id);
+        }
+        // Loaded after sessions so resumed jobs can find their messages
+        return listVideoJobs().then(setVideoJobs);
+      })
+      .catch(err => console.error("Failed to load sessions", err));
+  }, []);
+
+  // Poll every running job that isn't already being polled (new, retried or resumed after a reload)
+  useEffect(() => {
+    videoJobs
+      .filter(job => job.status === 'running' && !jobControllersRef.current.has(job.id))
+      .forEach(pollVideoJob);
+  }, [videoJobs]);
+
+  // Persist the active session once its messages settle (not on every streamed token)
+  useEffect(() => {
+    if (!activeSessionId || isStreaming) return;
+    const session = sessions.find(s => s.id === activeSessionId);
+    if (!session || session.messages === messages) return;
+
+    const firstUserMsg = messages.find(m => m.role === 'user');
+    const updated: ChatSession = {
+      ...session,
+      name: session.name === DEFAULT_SESSION_NAME && firstUserMsg
+        ? firstUserMsg.content.slice(0, 40)
+        : session.name,
+      messages,
+      updatedAt: Date.now()
+    };
+    setSessions(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    saveSession(updated).catch(err => console.error("Failed to save session", err));
+  }, [messages, activeSessionId, isStreaming]);
+
+  const handleCreateSession = () => {
+    const session = createSession([createWelcomeMessage(activePersona)]);
+    setSessions(prev => [session, ...prev]);
+    setActiveSessionId(session.id);
+    setMessages(session.messages);
+    setError(null);
+    saveSession(session).catch(err => console.error("Failed to save session", err));
+  };
+
+  const handleSelectSession = (id: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (!session) return;
+    setActiveSessionId(id);
+    setMessages(session.messages);
+    setError(null);
+  };
+
+  // The active chat's latest messages may not be saved into its session yet
+  const getMediaSessions = (): ChatSession[] => {
+    const active = sessions.find(s => s.id === activeSessionId) || { ...createSession(), id: activeSessionId || '' };
+    return [{ ...active, messages }, ...sessions.filter(s => s.id !== active.id)];
+  };
+
+  const handleOpenMedia = (item: MediaItem) => {
+    if (item.sessionId !== activeSessionId) {
+      // Switching conversations mid-request would strand the answer
+      if (isLoading) {
+        setError("Wait for the current request to finish before opening another conversation.");
+        return;
+      }
+      handleSelectSession(item.sessionId);
+    }
+    setIsGalleryOpen(false);
+    setFocusedMessageId(item.messageId);
+  };
+
+  const handleSelectPersona = (id: string) => {
+    setActivePersonaId(id);
+    saveActivePersonaId(id);
+    // A chat that hasn't started yet greets as the new persona
+    if (messages.length === 1 && messages[0].id === 'welcome') {
+      setMessages([createWelcomeMessage(findPersona(allPersonas, id))]);
+    }
+  };
+
+  const handleSaveLibrary = (nextPersonas: Persona[], nextTemplates: PromptTemplate[]) => {
+    setPersonas(nextPersonas);
+    savePersonas(nextPersonas);
+    setTemplates(nextTemplates);
+    saveTemplates(nextTemplates);
+    if (!nextPersonas.some(p => p.id === activePersonaId)) handleSelectPersona(DEFAULT_PERSONA.id);
+  };
+
+  const handleInsertTemplate = (text: string) => {
+    setInput(prev => (prev.trim() ? `${prev.trimEnd()}\n${text}` : text));
+  };
+
+  // A rephrased prompt goes to the composer for review rather than being sent straight away
+  const handleUseSuggestion = (prompt: string) => {
+    setInput(prompt);
+  };
+
+  const handleRenameSession = (id: string, name: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (!session) return;
+    const updated = { ...session, name };
+    setSessions(prev => prev.map(s => (s.id === id ? updated : s)));
+    saveSession(updated).catch(err => console.error("Failed to save session", err));
+  };
+
+  const handleDeleteSession = (id: string) => {
+    const remaining = sessions.filter(s => s.id !== id);
+    deleteSession(id).catch(err => console.error("Failed to delete session", err));
+    videoJobs.filter(job => job.sessionId === id).forEach(job => {
+      jobControllersRef.current.get(job.id)?.abort();
+      deleteVideoJob(job.id).catch(err => console.error("Failed to delete video job", err));
+    });
+    setVideoJobs(prev => prev.filter(job => job.sessionId !== id));
+
+    if (remaining.length === 0) {
+      setSessions([]);
+      handleCreateSession();
+      return;
+    }
+    setSessions(remaining);
+    if (id === activeSessionId) {
+      setActiveSessionId(remaining[0].id);
+      setMessages(remaining[0].messages);
+      setError(null);
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    const session = sessions.find(s => s.id === activeSessionId);
+    if (!session) return;
+    const current = { ...session, messages };
+    const fileName = exportFileName(current, format);
+
+    try {
+      if (format === 'markdown') {
+        downloadText(fileName, toMarkdown(current), 'text/markdown');
+      } else if (format === 'json') {
+        downloadText(fileName, await toJsonExport(current), 'application/json');
+      } else {
+        downloadText(fileName, await toHtml(current), 'text/html');
+      }
+    } catch (err) {
+      console.error("Export failed", err);
+      setError("Could not export this conversation.");
+    }
+  };
+
+  // Imports a JSON export as a new session (never overwrites an existing one)
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseJsonExport(await file.text());
+      const session: ChatSession = sessions.some(s => s.id === imported.id)
+        ? { ...imported, id: Date.now().toString() }
+        : imported;
+      setSessions(prev => [session, ...prev]);
+      setActiveSessionId(session.id);
+      setMessages(session.messages);
+      setError(null);
+      await saveSession(session);
+    } catch (err: any) {
+      setError(err.message || "Could not import this file.");
+    }
+  };
+
+  const updateVideoJob = (job: VideoJob) => {
+    setVideoJobs(prev => prev.some(j => j.id === job.id) ? prev.map(j => (j.id === job.id ? job : j)) : [...prev, job]);
+    saveVideoJob(job).catch(err => console.error("Failed to save video job", err));
+  };
+
+  // Patches a message whether it is in the open chat or in another (stored) session
+  const patchAnyMessage = (messageId: string, patch: Partial<Message>) => {
+    if (messagesRef.current.some(m => m.id === messageId)) {
+      updateMessage(messageId, patch);
+      return;
+    }
+    const session = sessionsRef.current.find(s => s.messages.some(m => m.id === messageId));
+    if (!session) return;
+    const updated = { ...session, messages: session.messages.map(m => (m.id === messageId ? { ...m, ...patch } : m)) };
+    setSessions(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    saveSession(updated).catch(err => console.error("Failed to save session", err));
+  };
+
+  const pollVideoJob = (job: VideoJob) => {
+    const controller = new AbortController();
+    jobControllersRef.current.set(job.id, controller);
+
+    let latest = job;
+    const onUpdate = (next: VideoJob) => {
+      latest = next;
+      updateVideoJob(next);
+    };
+
+    runVideoJob(job, onUpdate, controller.signal)
+      .then(({ url, usage }) => {
+        recordUsage([usage], job.sessionId || undefined);
+        const message = [...messagesRef.current, ...sessionsRef.current.flatMap(s => s.messages)]
+          .find(m => m.id === job.messageId);
+        patchAnyMessage(job.messageId, {
+          content: `Here is your video for: "${job.prompt}"`,
+          attachmentUrl: url,
+          videoJobId: undefined,
+          usage: [...(message?.usage || []), usage],
+        });
+        // The message now holds the video, so the job record is no longer needed
+        setVideoJobs(prev => prev.filter(j => j.id !== job.id));
+        deleteVideoJob(job.id).catch(err => console.error("Failed to delete video job", err));
+      })
+      .catch(err => {
+        // Cancelling already marked the job
+        if (controller.signal.aborted) return;
+        updateVideoJob({ ...latest, status: 'failed', error: describeError(err), updatedAt: Date.now() });
+      })
+      .finally(() => jobControllersRef.current.delete(job.id));
+  };
+
+  const handleCancelVideoJob = (job: VideoJob) => {
+    jobControllersRef.current.get(job.id)?.abort();
+    updateVideoJob({ ...job, status: 'cancelled', updatedAt: Date.now() });
+  };
+
+  const handleRetryVideoJob = (job: VideoJob) => {
+    updateVideoJob(resetVideoJob(job));
+  };
+
   // Handle API Key Selection for Paid Models (Veo/Pro Image)
   const ensurePaidKeySelection = async () => {
     if (window.aistudio) {
@@ -61,103 +444,432 @@ export default function App() {
     return true; // If not in AI Studio environment, we proceed with env key
   };
 
+  // Shared lifecycle for submit and regenerate: loading state, cancellation and errors
+  const runRequest = async (work: (signal: AbortSignal) => Promise<void>) => {
+    setIsLoading(true);
+    setError(null);
+    setLoadingStep('orchestrating');
+
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
+
+    try {
+      await work(controller.signal);
+    } catch (err: any) {
+      console.error(err);
+      // User-initiated cancellation is not an error worth surfacing
+      if (!controller.signal.aborted) {
+        setError(describeError(err));
+      }
+    } finally {
+      requestControllerRef.current = null;
+      setIsLoading(false);
+      setLoadingStep(null);
+      setCurrentModel(undefined);
+      setCurrentTask(undefined);
+      setPlanProgress(null);
+    }
+  };
+
+  // Executes a decision (single task or plan), feeding earlier step outputs forward
+  const runPlan = async (
+    decision: OrchestrationDecision,
+    history: Message[],
+    userAttachments: Attachment[],
+    override: TaskSettings | null,
+    signal: AbortSignal
+  ) => {
+    const steps = getPlanSteps(decision).map(step => applyPersonaModel(step, activePersona));
+
+    // Check for Paid Key requirement (Veo, Pro Image) once for the whole plan
+    if (decision.requiresPaidKey || steps.some(step => step.requiresPaidKey)) {
+      try {
+        await ensurePaidKeySelection();
+      } catch (keyError) {
+         throw new Error("API Key selection failed or was cancelled.");
+      }
+    }
+
+    // The routing call is billed once and shown on the first step's message
+    if (decision.usage) recordUsage([decision.usage], activeSessionId || undefined);
+
+    const previousImage = findPreviousImage(history);
+    const outputs: StepOutput[] = [];
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      setCurrentModel(step.model);
+      setCurrentTask(step.type);
+      setPlanProgress(steps.length > 1 ? { current: i + 1, total: steps.length } : null);
+      setLoadingStep('generating');
+
+      const { prompt, attachments: stepAttachments } = resolveStepInput(step, outputs, userAttachments, previousImage);
+      const leadingUsage = i === 0 && decision.usage ? [decision.usage] : [];
+      const output = await executeStep(step, prompt, stepAttachments, history, override, signal, leadingUsage);
+      if (output.blocked) break;
+      outputs.push(output);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    await submitPrompt(input, attachments);
+  };
 
+  // Shared by the composer and voice input
+  const submitPrompt = async (text: string, userAttachments: Attachment[]) => {
+    if ((!text.trim() && userAttachments.length === 0) || isLoading) return;
+
+    // A slash command wins over the mode selector for this message
+    const { mode: commandMode, prompt: typed } = parseSlashCommand(text);
+    const prompt = typed.trim() ? typed : userAttachments.length > 0 ? ATTACHMENT_ONLY_PROMPT : '';
+    if (!prompt) return;
+    const routing = commandMode ? commandMode.routing : selectedMode.routing;
+
+    const history = messages;
     const userMsg: Message = {
       id: Date.now().toString(),
       role: 'user',
-      content: input,
-      timestamp: Date.now()
+      content: prompt,
+      timestamp: Date.now(),
+      attachments: userAttachments.length > 0 ? userAttachments : undefined
     };
+    const override = settingsOverride;
 
     setMessages(prev => [...prev, userMsg]);
     setInput('');
-    setIsLoading(true);
-    setError(null);
-    setLoadingStep('orchestrating');
+    setAttachments([]);
+    setVoiceTranscript(null);
+    setSettingsOverride(null);
 
-    try {
+    await runRequest(async (signal) => {
       // 1. Orchestrate
-      const decision = await orchestrateRequest(userMsg.content);
+      const decision = await orchestrateRequest(userMsg.content, history, signal, contextWindow, userAttachments, routing);
       console.log("Orchestration Decision:", decision);
 
-      setCurrentModel(decision.model);
-      setCurrentTask(decision.type);
-      setLoadingStep('generating');
+      // 2. Execute
+      await runPlan(decision, history, userAttachments, override, signal);
+    });
+  };
+
+  const handleVoicePreferences = (preferences: VoicePreferences) => {
+    setVoicePreferences(preferences);
+    saveVoicePreferences(preferences);
+  };
+
+  // A finished recording either becomes an audio attachment or is transcribed into a prompt.
+  // Transcription registers as the in-flight request, so Cancel stops it too.
+  const handleVoiceRecorded = async (recording: Blob) => {
+    const extension = recording.type.includes('mp4') ? 'm4a' : recording.type.includes('ogg') ? 'ogg' : 'webm';
+    const controller = new AbortController();
+    try {
+      const audio = await readAttachment(new File([recording], `voice-message.${extension}`, { type: recording.type }));
 
-      // Check for Paid Key requirement (Veo, Pro Image)
-      if (decision.requiresPaidKey) {
-        try {
-          await ensurePaidKeySelection();
-        } catch (keyError) {
-           throw new Error("API Key selection failed or was cancelled.");
+      if (voicePreferences.sendAs === 'audio') {
+        if (voicePreferences.autoSubmit) {
+          await submitPrompt(input.trim() || VOICE_MESSAGE_PROMPT, [...attachmentsRef.current, audio]);
+        } else {
+          setAttachments(prev => [...prev, audio]);
         }
+        return;
       }
 
-      // 2. Execute
-      let responseContent: Partial<Message> = {
-        role: 'assistant',
-        taskType: decision.type,
-        usedModel: decision.model,
-        orchestrationData: decision,
-      };
-
-      switch (decision.type) {
+      setIsTranscribing(true);
+      setError(null);
+      requestControllerRef.current = controller;
+      const { text, usage } = await transcribeAudio(TRANSCRIPTION_MODEL, audio, controller.signal);
+      requestControllerRef.current = null;
+      recordUsage([usage], activeSessionId || undefined);
+      if (!text) {
+        setError("No speech was detected in the recording.");
+      } else if (voicePreferences.autoSubmit) {
+        await submitPrompt(text, attachmentsRef.current);
+      } else {
+        setVoiceTranscript(text);
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Voice input failed", err);
+      setError(describeError(err));
+    } finally {
+      if (requestControllerRef.current === controller) requestControllerRef.current = null;
+      setIsTranscribing(false);
+    }
+  };
+
+  // "Reply by voice": reads a finished text answer aloud and attaches the audio to its message
+  const addVoiceReply = async (messageId: string, text: string, usage: UsageRecord[], signal: AbortSignal) => {
+    const model = getVoiceReplyModel();
+    const speakable = toSpeakableText(text);
+    if (!model || !speakable) return;
+
+    setLoadingStep('generating');
+    setCurrentModel(model);
+    setCurrentTask(TaskType.AUDIO);
+    try {
+      const { settings } = resolveSettings(model, applyPersonaVoice(TaskType.AUDIO, mergeSettings(TaskType.AUDIO, taskSettings), activePersona));
+      const result = await generateAudioResponse(model, speakable, signal, settings);
+      recordUsage([result.usage], activeSessionId || undefined);
+      updateMessage(messageId, { audioData: result.audio, audioMimeType: result.mimeType, usage: [...usage, result.usage] });
+    } catch (err) {
+      if (signal.aborted) return;
+      // The written answer is already there, so this is a warning rather than a failed request
+      console.error("Voice reply failed", err);
+      setMessages(prev => prev.map(m => (m.id === messageId
+        ? { ...m, settingsWarnings: [...(m.settingsWarnings || []), `Couldn't read the answer aloud: ${describeError(err)}`] }
+        : m)));
+    }
+  };
+
+  // Asks the orchestrator for a rewording of a blocked prompt and offers it on the message
+  const addRephraseSuggestion = async (messageId: string, prompt: string, safety: SafetyInfo, usage: UsageRecord[], signal: AbortSignal) => {
+    setLoadingStep('orchestrating');
+    try {
+      const suggestion = await suggestRephrase(prompt, safety, signal);
+      recordUsage([suggestion.usage], activeSessionId || undefined);
+      updateMessage(messageId, {
+        safety: suggestion.prompt ? { ...safety, suggestedPrompt: suggestion.prompt } : safety,
+        usage: [...usage, suggestion.usage],
+      });
+    } catch (err) {
+      // The block is already explained; a missing suggestion is not worth an error
+      if (!signal.aborted) console.warn("Could not suggest a rephrased prompt", err);
+    }
+  };
+
+  // Re-runs an assistant message's refined prompt with another model, skipping the orchestrator
+  const handleRegenerate = async (message: Message, type: TaskType, model: string) => {
+    if (isLoading || !message.orchestrationData) return;
+
+    const modelDef = getModel(model);
+    const decision: OrchestrationDecision = {
+      type,
+      model,
+      reasoning: `Regenerated with ${modelDef?.label || model} at your request.`,
+      refinedPrompt: message.orchestrationData.refinedPrompt,
+      requiresPaidKey: modelDef?.requiresPaidKey ?? false,
+      isManual: true,
+      usePreviousImage: message.orchestrationData.usePreviousImage,
+      // A dialogue stays a dialogue if the new model can voice several speakers
+      speakers: type === TaskType.AUDIO ? validateSpeakers(message.orchestrationData.speakers, model) : undefined,
+    };
+    const earlier = messages.slice(0, messages.indexOf(message));
+    // The request that produced the message is re-sent as the refined prompt, so its user
+    // turn leaves the history; its files (an image to edit or animate) are sent again
+    let requestIndex = earlier.length - 1;
+    while (requestIndex >= 0 && earlier[requestIndex].role !== 'user') requestIndex--;
+    const userAttachments = earlier[requestIndex]?.attachments || [];
+    const history = earlier.filter((_, i) => i !== requestIndex);
+
+    await runRequest(signal => runPlan(decision, history, userAttachments, null, signal));
+  };
+
+  // Generates variations of the image picked on a message, keeping its model
+  const handleVariations = async (message: Message, count: number) => {
+    if (isLoading || !message.orchestrationData || !message.usedModel) return;
+
+    const decision: OrchestrationDecision = {
+      type: TaskType.IMAGE,
+      model: message.usedModel,
+      reasoning: `${count} variations of the selected image at your request.`,
+      refinedPrompt: buildVariationPrompt(message.orchestrationData.refinedPrompt),
+      requiresPaidKey: getModel(message.usedModel)?.requiresPaidKey ?? false,
+      isManual: true,
+      usePreviousImage: true,
+    };
+    // History up to this message, so its image is the one varied
+    const history = messages.slice(0, messages.indexOf(message) + 1);
+    const override: TaskSettings = { [TaskType.IMAGE]: { ...taskSettings[TaskType.IMAGE], numberOfOutputs: count } };
+
+    await runRequest(signal => runPlan(decision, history, [], override, signal));
+  };
+
+  const handleSelectImage = (message: Message, index: number) => {
+    updateMessage(message.id, { selectedImageIndex: index });
+  };
+
+  // Runs a single task and appends its assistant message
+  const executeStep = async (
+    step: OrchestrationDecision,
+    prompt: string,
+    stepAttachments: Attachment[],
+    history: Message[],
+    override: TaskSettings | null,
+    signal: AbortSignal,
+    leadingUsage: UsageRecord[] = []
+  ): Promise<StepOutput> => {
+    const { steps, ...stepData } = step;
+    const { settings, warnings } = resolveSettings(
+      step.model,
+      applyPersonaVoice(step.type, mergeSettings(step.type, taskSettings, override), activePersona)
+    );
+
+    // Budget gate for priced-per-output calls (Veo, Pro Image)
+    const budgetCheck = checkBudget(estimateRequestCost(step.model, settings), activeSessionId);
+    if (budgetCheck.status === 'block') {
+      throw new Error(budgetCheck.message);
+    }
+    if (budgetCheck.status === 'warn' && !window.confirm(`${budgetCheck.message}\n\nContinue anyway?`)) {
+      throw new Error("Skipped to stay within your budget.");
+    }
+
+    let responseContent: Partial<Message> = {
+      role: 'assistant',
+      taskType: step.type,
+      usedModel: step.model,
+      orchestrationData: stepData,
+      generationSettings: settings,
+      settingsWarnings: warnings.length > 0 ? warnings : undefined,
+      personaName: activePersona.id !== DEFAULT_PERSONA.id ? activePersona.name : undefined,
+    };
+    let output: StepOutput = {};
+    let streamId: string | null = null;
+    let usage: UsageRecord | undefined;
+    let voiceReplyText: string | null = null;
+
+    try {
+      switch (step.type) {
         case TaskType.TEXT:
         case TaskType.SEARCH:
-          const textResult = await generateTextResponse(
-            decision.model, 
-            decision.refinedPrompt, 
-            decision.type === TaskType.SEARCH
+          // Stream into a placeholder bubble instead of waiting for the full answer
+          streamId = `${Date.now()}-${step.type}`;
+          const placeholderId = streamId;
+          setMessages(prev => [...prev, { id: placeholderId, timestamp: Date.now(), ...responseContent, content: '', isStreaming: true } as Message]);
+          setLoadingStep(null);
+
+          const textResult = await streamTextResponse(
+            step.model, 
+            prompt, 
+            step.type === TaskType.SEARCH,
+            (text) => updateMessage(placeholderId, { content: text }),
+            signal,
+            history,
+            contextWindow,
+            stepAttachments,
+            settings,
+            step.type === TaskType.TEXT ? listTools() : [],
+            (toolCalls) => updateMessage(placeholderId, { toolCalls }),
+            getSystemInstruction(step.type, activePersona)
           );
           responseContent.content = textResult.text;
-          responseContent.groundingUrls = textResult.groundingChunks?.map((c: any) => ({
-            uri: c.web?.uri || c.maps?.uri,
-            title: c.web?.title || c.maps?.title || "Source"
-          })).filter((x: any) => x.uri);
+          responseContent.toolCalls = textResult.toolCalls.length > 0 ? textResult.toolCalls : undefined;
+          if (textResult.groundingMetadata) {
+            const grounding = extractGrounding(textResult.groundingMetadata, textResult.text);
+            responseContent.groundingUrls = grounding.sources;
+            responseContent.citations = grounding.citations.length > 0 ? grounding.citations : undefined;
+            responseContent.searchQueries = grounding.queries.length > 0 ? grounding.queries : undefined;
+          }
+          output = { text: textResult.text, blocked: textResult.safety?.blocked };
+          responseContent.safety = textResult.safety || undefined;
+          usage = textResult.usage;
+          if (voicePreferences.replyByVoice && !textResult.stopped) voiceReplyText = textResult.text;
           break;
 
         case TaskType.IMAGE:
-          const imageResult = await generateImageResponse(decision.model, decision.refinedPrompt);
-          responseContent.content = `I've generated an image based on your description: "${decision.refinedPrompt}"`;
-          responseContent.attachmentUrl = `data:${imageResult.mimeType};base64,${imageResult.base64}`;
+          const { images, usage: imageUsage } = await generateImageResponse(step.model, prompt, signal, stepAttachments, settings);
+          usage = imageUsage;
+          const imageUrls = images.map(img => `data:${img.mimeType};base64,${img.base64}`);
+          responseContent.content = `I've generated ${images.length > 1 ? `${images.length} images` : 'an image'} based on your description: "${step.refinedPrompt}"`;
+          responseContent.attachmentUrl = imageUrls[0];
+          responseContent.attachmentUrls = imageUrls.length > 1 ? imageUrls : undefined;
+          output = {
+            image: {
+              id: `${Date.now()}-image`,
+              name: 'generated-image.png',
+              mimeType: images[0].mimeType,
+              kind: 'image',
+              size: Math.floor(images[0].base64.length * 0.75),
+              data: images[0].base64,
+            }
+          };
           break;
 
         case TaskType.VIDEO:
-          responseContent.content = `I've generated a video for: "${decision.refinedPrompt}". This process took some time to render using Veo.`;
-          const videoUrl = await generateVideoResponse(decision.model, decision.refinedPrompt);
-          responseContent.attachmentUrl = videoUrl;
+          // Veo renders for minutes, so it runs as a background job and the chat stays usable
+          const videoMessageId = `${Date.now()}-video`;
+          const job = createVideoJob({
+            sessionId: activeSessionId || '',
+            messageId: videoMessageId,
+            model: step.model,
+            prompt,
+            settings,
+            startFrame: stepAttachments.find(a => a.kind === 'image'),
+          });
+          responseContent.id = videoMessageId;
+          responseContent.content = `Rendering a video for: "${step.refinedPrompt}". You can keep chatting while Veo works on it.`;
+          responseContent.videoJobId = job.id;
+          updateVideoJob(job);
           break;
 
         case TaskType.AUDIO:
-          const audioBase64 = await generateAudioResponse(decision.model, decision.refinedPrompt);
+          const audioResult = await generateAudioResponse(step.model, prompt, signal, settings, step.speakers);
           responseContent.content = `Here is the audio playback for your text.`;
-          responseContent.audioData = audioBase64;
+          responseContent.audioData = audioResult.audio;
+          responseContent.audioMimeType = audioResult.mimeType;
+          responseContent.voices = audioResult.voices;
+          usage = audioResult.usage;
           break;
       }
+    } catch (err) {
+      if (streamId) {
+        // Drop the placeholder if nothing arrived before the failure
+        const failedId = streamId;
+        setMessages(prev => prev
+          .filter(m => m.id !== failedId || m.content)
+          .map(m => (m.id === failedId ? { ...m, isStreaming: false } : m)));
+      }
+      if (!(err instanceof SafetyBlockedError)) throw err;
+      // A block is an answer, not a failure: it gets a message explaining why
+      responseContent.content = '';
+      responseContent.safety = err.safety;
+      output = { blocked: true };
+    }
 
-      setMessages(prev => [...prev, { id: Date.now().toString(), timestamp: Date.now(), ...responseContent } as Message]);
+    if (usage) recordUsage([usage], activeSessionId || undefined);
+    responseContent.usage = [...leadingUsage, ...(usage ? [usage] : [])];
 
-    } catch (err: any) {
-      console.error(err);
-      setError(err.message || "An unexpected error occurred.");
-    } finally {
-      setIsLoading(false);
-      setLoadingStep(null);
-      setCurrentModel(undefined);
-      setCurrentTask(undefined);
+    const messageId = streamId || responseContent.id || Date.now().toString();
+    if (streamId) {
+      updateMessage(streamId, { ...responseContent, isStreaming: false });
+      if (voiceReplyText) await addVoiceReply(streamId, voiceReplyText, responseContent.usage || [], signal);
+    } else {
+      setMessages(prev => [...prev, { id: messageId, timestamp: Date.now(), ...responseContent } as Message]);
     }
+    if (responseContent.safety?.blocked) {
+      await addRephraseSuggestion(messageId, step.refinedPrompt, responseContent.safety, responseContent.usage, signal);
+    }
+    return output;
   };
 
   return (
-    <div className="flex flex-col h-screen bg-slate-900 text-slate-100 font-sans selection:bg-indigo-500/30">
+    <div className="flex h-screen bg-slate-900 text-slate-100 font-sans selection:bg-indigo-500/30">
+
+      {/* Session Sidebar */}
+      {isSidebarOpen && (
+        <SessionSidebar
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          disabled={isLoading}
+          onCreate={handleCreateSession}
+          onSelect={handleSelectSession}
+          onRename={handleRenameSession}
+          onDelete={handleDeleteSession}
+          onImport={handleImport}
+        />
+      )}
+
+      <div className="flex flex-col flex-1 min-w-0">
       
       {/* Header */}
       <header className="flex-none p-4 border-b border-slate-800 bg-slate-900/90 backdrop-blur-md sticky top-0 z-10">
         <div className="max-w-4xl mx-auto flex items-center justify-between">
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsSidebarOpen(open => !open)}
+              className="p-2 text-slate-400 hover:text-slate-200 rounded-lg hover:bg-slate-800 transition-colors"
+              title="Toggle conversations"
+            >
+              <PanelLeft className="w-5 h-5" />
+            </button>
             <div className="p-2 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg shadow-lg shadow-indigo-500/20">
               <Sparkles className="w-5 h-5 text-white" />
             </div>
@@ -169,12 +881,53 @@ export default function App() {
               </div>
             </div>
           </div>
+          <div className="flex items-center gap-4">
           <div className="hidden sm:flex text-xs text-slate-500 gap-4">
             <span className="flex items-center gap-1"><span className="w-2 h-2 rounded bg-indigo-500"></span>Text</span>
             <span className="flex items-center gap-1"><span className="w-2 h-2 rounded bg-pink-500"></span>Image</span>
             <span className="flex items-center gap-1"><span className="w-2 h-2 rounded bg-blue-500"></span>Video</span>
             <span className="flex items-center gap-1"><span className="w-2 h-2 rounded bg-orange-500"></span>Audio</span>
           </div>
+          <select
+            value={activePersona.id}
+            onChange={(e) => handleSelectPersona(e.target.value)}
+            title="Persona for answers"
+            className="bg-slate-900 border border-slate-800 rounded-lg text-xs text-slate-300 py-1.5 px-2 max-w-[140px]"
+          >
+            {allPersonas.map(persona => (
+              <option key={persona.id} value={persona.id}>{persona.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setIsLibraryOpen(true)}
+            className="p-2 text-slate-400 hover:text-slate-200 rounded-lg hover:bg-slate-800 transition-colors"
+            title="Personas & prompt templates"
+          >
+            <Users className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setIsGalleryOpen(true)}
+            className="p-2 text-slate-400 hover:text-slate-200 rounded-lg hover:bg-slate-800 transition-colors"
+            title="Media library"
+          >
+            <LayoutGrid className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setIsUsageOpen(true)}
+            className="p-2 text-slate-400 hover:text-slate-200 rounded-lg hover:bg-slate-800 transition-colors"
+            title="Usage & cost"
+          >
+            <BarChart3 className="w-5 h-5" />
+          </button>
+          <ExportMenu disabled={isLoading} onExport={handleExport} />
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="p-2 text-slate-400 hover:text-slate-200 rounded-lg hover:bg-slate-800 transition-colors"
+            title="Generation settings"
+          >
+            <SlidersHorizontal className="w-5 h-5" />
+          </button>
+          </div>
         </div>
       </header>
 
@@ -182,12 +935,31 @@ export default function App() {
       <main className="flex-1 overflow-y-auto p-4 sm:p-6 scroll-smooth">
         <div className="max-w-3xl mx-auto">
           {messages.map((msg) => (
-            <ChatMessage key={msg.id} message={msg} />
+            <ChatMessage
+              key={msg.id}
+              message={msg}
+              onRegenerate={isLoading ? undefined : handleRegenerate}
+              onVariations={isLoading ? undefined : handleVariations}
+              onSelectImage={handleSelectImage}
+              videoJob={msg.videoJobId ? videoJobs.find(job => job.id === msg.videoJobId) : undefined}
+              onCancelVideoJob={handleCancelVideoJob}
+              onRetryVideoJob={handleRetryVideoJob}
+              onUseSuggestion={handleUseSuggestion}
+              isFocused={msg.id === focusedMessageId}
+            />
           ))}
           
           {isLoading && loadingStep && (
             <div className="ml-12 mb-6">
-              <ThinkingIndicator step={loadingStep} model={currentModel} taskType={currentTask} />
+              <div className="flex items-center gap-2">
+                <ThinkingIndicator step={loadingStep} model={currentModel} taskType={currentTask} progress={planProgress} />
+                <button
+                  onClick={handleCancel}
+                  className="mt-2 flex items-center gap-1 text-xs text-slate-400 hover:text-red-300 bg-slate-800/50 hover:bg-red-900/20 px-3 py-2 rounded-lg border border-slate-700/50 transition-colors"
+                >
+                  <X size={14} /> Cancel
+                </button>
+              </div>
             </div>
           )}
 
@@ -205,12 +977,143 @@ export default function App() {
       {/* Input Area */}
       <footer className="flex-none p-4 bg-slate-900 border-t border-slate-800">
         <div className="max-w-3xl mx-auto relative">
-          <form onSubmit={handleSubmit} className="relative group">
+          <form
+            onSubmit={handleSubmit}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              addFiles(e.dataTransfer.files);
+            }}
+            className="relative group"
+          >
             <div className="absolute -inset-0.5 bg-gradient-to-r from-indigo-500 to-purple-600 rounded-xl opacity-20 group-hover:opacity-40 transition duration-500 blur"></div>
-            <div className="relative flex items-end gap-2 bg-slate-950 rounded-xl p-2 border border-slate-800 shadow-xl">
+            {settingsOverride && (
+              <div className="relative mb-2 flex items-center gap-2 w-fit text-xs text-indigo-200 bg-indigo-950/60 border border-indigo-500/30 rounded-lg px-3 py-1.5">
+                <SlidersHorizontal size={12} />
+                Custom settings for the next message
+                <button type="button" onClick={() => setSettingsOverride(null)} className="text-indigo-300 hover:text-white">
+                  <X size={12} />
+                </button>
+              </div>
+            )}
+            {commandHints.length > 0 && (
+              <div className="relative mb-2 p-1 bg-slate-950 rounded-xl border border-slate-800 text-sm">
+                {commandHints.map(mode => (
+                  <button
+                    key={mode.id}
+                    type="button"
+                    onClick={() => setInput(`${mode.command} `)}
+                    className="w-full flex items-center gap-3 px-3 py-1.5 rounded-lg text-left hover:bg-slate-800"
+                  >
+                    <span className="font-mono text-indigo-300">{mode.command}</span>
+                    <span className="text-slate-500 text-xs">{mode.description}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {(isTranscribing || voiceTranscript !== null) && (
+              <div className="relative mb-2 p-3 bg-slate-950 rounded-xl border border-slate-800 text-sm">
+                {isTranscribing ? (
+                  <div className="flex items-center gap-2 text-slate-400 text-xs">
+                    <Loader2 size={14} className="animate-spin" /> Transcribing…
+                    <button type="button" onClick={handleCancel} className="ml-auto text-slate-500 hover:text-red-300">
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-1.5 text-xs text-slate-400 mb-1">
+                      <Mic size={12} /> Transcript
+                    </div>
+                    <p className="text-slate-200">{voiceTranscript}</p>
+                    <div className="mt-2 flex items-center gap-3 text-xs">
+                      <button
+                        type="button"
+                        onClick={() => submitPrompt(voiceTranscript!, attachments)}
+                        disabled={isLoading}
+                        className="px-2.5 py-1 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white"
+                      >
+                        Send
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setInput(prev => (prev.trim() ? `${prev.trim()} ${voiceTranscript}` : voiceTranscript!));
+                          setVoiceTranscript(null);
+                        }}
+                        className="text-slate-300 hover:text-white"
+                      >
+                        Edit
+                      </button>
+                      <button type="button" onClick={() => setVoiceTranscript(null)} className="text-slate-500 hover:text-slate-300">
+                        Discard
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+            {attachments.length > 0 && (
+              <div className="relative mb-2 p-2 bg-slate-950 rounded-xl border border-slate-800">
+                <AttachmentList attachments={attachments} onRemove={removeAttachment} />
+              </div>
+            )}
+            <div className={`relative flex items-end gap-2 bg-slate-950 rounded-xl p-2 border shadow-xl ${isDragging ? 'border-indigo-500' : 'border-slate-800'}`}>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ACCEPTED_ATTACHMENT_TYPES}
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files) addFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                title="Attach files"
+                className="p-3 text-slate-400 hover:text-slate-200 rounded-lg transition-colors mb-0.5"
+              >
+                <Paperclip size={18} />
+              </button>
+              <VoiceInputButton
+                pushToTalk={voicePreferences.pushToTalk}
+                disabled={isLoading || isTranscribing}
+                onRecorded={handleVoiceRecorded}
+                onError={setError}
+              />
+              <VoiceSettingsMenu preferences={voicePreferences} onChange={handleVoicePreferences} />
+              <TemplateMenu
+                templates={templates}
+                onInsert={handleInsertTemplate}
+                onManage={() => setIsLibraryOpen(true)}
+              />
+              <select
+                value={routingModeId}
+                onChange={(e) => setRoutingModeId(e.target.value)}
+                title="Routing mode (or type a slash command such as /image)"
+                className="mb-1.5 bg-slate-900 border border-slate-800 rounded-lg text-xs text-slate-300 py-2 px-2"
+              >
+                {routingModes.map(mode => (
+                  <option key={mode.id} value={mode.id}>{mode.label}</option>
+                ))}
+              </select>
               <textarea
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
+                onPaste={(e) => {
+                  if (e.clipboardData.files.length > 0) {
+                    e.preventDefault();
+                    addFiles(e.clipboardData.files);
+                  }
+                }}
                 onKeyDown={(e) => {
                   if (e.key === 'Enter' && !e.shiftKey) {
                     e.preventDefault();
@@ -221,13 +1124,24 @@ export default function App() {
                 className="w-full bg-transparent border-none focus:ring-0 text-slate-200 placeholder-slate-500 resize-none max-h-32 min-h-[50px] py-3 px-3 text-sm scrollbar-thin"
                 rows={1}
               />
-              <button
-                type="submit"
-                disabled={!input.trim() || isLoading}
-                className="p-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:hover:bg-indigo-600 text-white rounded-lg transition-all duration-200 shadow-lg shadow-indigo-500/20 mb-0.5"
-              >
-                <Send size={18} />
-              </button>
+              {isStreaming ? (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  title="Stop generating"
+                  className="p-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-all duration-200 shadow-lg mb-0.5"
+                >
+                  <Square size={18} fill="white" />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={(!input.trim() && attachments.length === 0) || isLoading}
+                  className="p-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:hover:bg-indigo-600 text-white rounded-lg transition-all duration-200 shadow-lg shadow-indigo-500/20 mb-0.5"
+                >
+                  <Send size={18} />
+                </button>
+              )}
             </div>
           </form>
           <div className="text-center mt-3">
@@ -237,6 +1151,41 @@ export default function App() {
           </div>
         </div>
       </footer>
+      </div>
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={taskSettings}
+          override={settingsOverride}
+          contextWindow={contextWindow}
+          onSave={handleSaveSettings}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {isLibraryOpen && (
+        <LibraryPanel
+          personas={personas}
+          templates={templates}
+          onSave={handleSaveLibrary}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
+      {isGalleryOpen && (
+        <MediaGallery
+          sessions={getMediaSessions()}
+          onOpen={handleOpenMedia}
+          onClose={() => setIsGalleryOpen(false)}
+        />
+      )}
+
+      {isUsageOpen && (
+        <UsageDashboard
+          activeSessionId={activeSessionId}
+          onClose={() => setIsUsageOpen(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import React from 'react';
+import { X, FileText, FileAudio, FileVideo } from 'lucide-react';
+import { Attachment } from '../types';
+import { toDataUrl } from '../services/attachmentService';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onRemove?: (id: string) => void; // Omit for read-only display
+}
+
+const FILE_ICONS = {
+  audio: FileAudio,
+  video: FileVideo,
+  document: FileText,
+};
+
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove }) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => {
+        const Icon = attachment.kind === 'image' ? null : FILE_ICONS[attachment.kind];
+
+        return (
+          <div
+            key={attachment.id}
+            className="relative group flex items-center gap-2 bg-slate-800 border border-slate-700 rounded-lg overflow-hidden text-xs text-slate-300"
+            title={attachment.name}
+          >
+            {attachment.kind === 'image' ? (
+              <img src={toDataUrl(attachment)} alt={attachment.name} className="h-14 w-14 object-cover" />
+            ) : (
+              <div className="flex items-center gap-2 px-3 py-2 max-w-[180px]">
+                {Icon && <Icon size={16} className="flex-none text-indigo-300" />}
+                <span className="truncate">{attachment.name}</span>
+              </div>
+            )}
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(attachment.id)}
+                className="absolute top-0.5 right-0.5 p-0.5 rounded-full bg-black/70 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Remove"
+              >
+                <X size={12} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Pause, Play } from 'lucide-react';
+import { decodeAudio } from '../services/geminiService';
+import { formatDuration, getWaveformPeaks, parsePcmFormat, toAudioBlob } from '../services/audioService';
+import { getMediaExtension, getMediaMimeType } from '../services/mediaService';
+
+interface AudioPlayerProps {
+  data: string; // base64
+  mimeType?: string;
+  fileName?: string; // Download name
+}
+
+const WAVEFORM_BARS = 48;
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+export const AudioPlayer: React.FC<AudioPlayerProps> = ({ data, mimeType, fileName }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [peaks, setPeaks] = useState<number[]>([]);
+
+  // Raw PCM is wrapped as WAV so the same URL serves playback and download.
+  // Created and revoked in one effect, so StrictMode's remount gets a fresh URL.
+  const [url, setUrl] = useState<string>();
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(toAudioBlob(data, mimeType));
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [data, mimeType]);
+
+  // Waveform preview; decoded offline so no audio device is opened
+  useEffect(() => {
+    if (typeof OfflineAudioContext === 'undefined') return;
+    let cancelled = false;
+    const ctx = new OfflineAudioContext(1, 1, parsePcmFormat(mimeType).sampleRate);
+    decodeAudio(data, ctx, mimeType)
+      .then(buffer => { if (!cancelled) setPeaks(getWaveformPeaks(buffer, WAVEFORM_BARS)); })
+      .catch(err => console.error("Waveform decoding failed", err));
+    return () => { cancelled = true; };
+  }, [data, mimeType]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(err => console.error("Audio playback error", err));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seek = (time: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const changeRate = (rate: number) => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+    setPlaybackRate(rate);
+  };
+
+  const progress = duration > 0 ? currentTime / duration : 0;
+  // Raw PCM downloads as WAV; anything else keeps its own format
+  const extension = getMediaExtension(getMediaMimeType('audio', mimeType));
+
+  return (
+    <div className="mt-3 w-full min-w-[280px] bg-slate-900/50 p-3 rounded-lg border border-slate-700">
+      <audio
+        ref={audioRef}
+        src={url}
+        preload="metadata"
+        onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+      />
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlay}
+          title={isPlaying ? "Pause" : "Play"}
+          className="flex-shrink-0 w-10 h-10 rounded-full bg-indigo-500 hover:bg-indigo-400 flex items-center justify-center transition-colors"
+        >
+          {isPlaying ? <Pause size={18} fill="white" /> : <Play size={18} fill="white" className="ml-1" />}
+        </button>
+
+        {/* Waveform doubles as a seek bar */}
+        <div
+          className="flex-1 flex items-center gap-px h-10 cursor-pointer"
+          onClick={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            if (duration > 0 && rect.width > 0) seek(((e.clientX - rect.left) / rect.width) * duration);
+          }}
+        >
+          {(peaks.length ? peaks : Array(WAVEFORM_BARS).fill(0.2)).map((peak, idx) => (
+            <div
+              key={idx}
+              className={`flex-1 rounded-sm ${idx / WAVEFORM_BARS < progress ? 'bg-indigo-400' : 'bg-slate-600'}`}
+              style={{ height: `${Math.max(peak * 100, 8)}%` }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={duration || 0}
+        step={0.01}
+        value={currentTime}
+        onChange={(e) => seek(Number(e.target.value))}
+        className="w-full mt-2 accent-indigo-500"
+        aria-label="Seek"
+      />
+
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span className="font-mono">{formatDuration(currentTime)} / {formatDuration(duration)}</span>
+        <div className="flex items-center gap-3">
+          <select
+            value={playbackRate}
+            onChange={(e) => changeRate(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300"
+            title="Playback speed"
+          >
+            {PLAYBACK_RATES.map(rate => (
+              <option key={rate} value={rate}>{rate}x</option>
+            ))}
+          </select>
+          <a
+            href={url}
+            download={fileName || `speech.${extension}`}
+            className="flex items-center gap-1 text-indigo-300 hover:text-indigo-200"
+          >
+            <Download size={12} /> Download {extension.toUpperCase()}
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+};
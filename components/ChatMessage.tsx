@@ -1,48 +1,58 @@
-import React, { useEffect, useRef, useState } from 'react';
-import ReactMarkdown from 'react-markdown';
-import { Message, TaskType } from '../types';
-import { Bot, User, Play, Pause, MapPin, Search } from 'lucide-react';
-import { decodeAudio } from '../services/geminiService';
+import React, { useState } from 'react';
+import { MarkdownContent } from './MarkdownContent';
+import { Message, TaskType, VideoJob } from '../types';
+import { Bot, User, UserCircle2, Mic, Check, Copy, Layers, MapPin, Search, Link2, AlertTriangle, Hand } from 'lucide-react';
+import { AttachmentList } from './AttachmentList';
+import { AudioPlayer } from './AudioPlayer';
+import { VideoJobCard } from './VideoJobCard';
+import { ToolCallSteps } from './ToolCallSteps';
+import { SafetyNotice } from './SafetyNotice';
+import { describeSettings } from '../services/settingsService';
+import { describeVoices } from '../services/speechService';
+import { VARIATION_COUNTS } from '../services/imageService';
+import { RegenerateMenu } from './RegenerateMenu';
+import { formatCost, summarize } from '../services/usageService';
+import { getSourceDomain, insertCitationMarkers } from '../services/citationService';
+import { copyToClipboard, isWebLink, toCopyableMarkdown } from '../services/markdownService';
+import { getMediaFileName, getMediaMimeType } from '../services/mediaService';
 
 interface ChatMessageProps {
   message: Message;
+  onRegenerate?: (message: Message, type: TaskType, model: string) => void; // Omit to hide the menu
+  onVariations?: (message: Message, count: number) => void; // Omit to hide the buttons
+  onSelectImage?: (message: Message, index: number) => void;
+  videoJob?: VideoJob; // Background render filling in this message
+  onCancelVideoJob?: (job: VideoJob) => void;
+  onRetryVideoJob?: (job: VideoJob) => void;
+  onUseSuggestion?: (prompt: string) => void; // Puts a rephrased prompt into the composer
+  isFocused?: boolean; // Opened from the media library
 }
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
+export const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  onRegenerate,
+  onVariations,
+  onSelectImage,
+  videoJob,
+  onCancelVideoJob,
+  onRetryVideoJob,
+  onUseSuggestion,
+  isFocused,
+}) => {
   const isUser = message.role === 'user';
-  const [isPlaying, setIsPlaying] = useState(false);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  
-  // Play Audio Logic
-  const handlePlayAudio = async () => {
-    if (!message.audioData) return;
-    
-    if (isPlaying) {
-      audioContextRef.current?.close();
-      audioContextRef.current = null;
-      setIsPlaying(false);
-      return;
-    }
-
-    try {
-      setIsPlaying(true);
-      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      audioContextRef.current = ctx;
-      
-      const buffer = await decodeAudio(message.audioData, ctx);
-      const source = ctx.createBufferSource();
-      source.buffer = buffer;
-      source.connect(ctx.destination);
-      source.onended = () => setIsPlaying(false);
-      source.start();
-    } catch (e) {
-      console.error("Audio playback error", e);
-      setIsPlaying(false);
-    }
-  };
+  const [copied, setCopied] = useState(false);
+  const usage = message.usage?.length ? summarize(message.usage) : null;
+  const sources = message.groundingUrls || [];
+  const content = message.citations && !message.isStreaming
+    ? insertCitationMarkers(message.content, message.citations)
+    : message.content;
+  // Downloads are named after the prompt and time rather than a fixed name
+  const prompt = message.orchestrationData?.refinedPrompt || message.content;
+  const fileNameFor = (kind: 'image' | 'audio', url?: string, index?: number) =>
+    getMediaFileName(prompt, message.timestamp, getMediaMimeType(kind, message.audioMimeType, url), index);
 
   return (
-    <div className={`flex w-full mb-6 ${isUser ? 'justify-end' : 'justify-start'}`}>
+    <div id={`message-${message.id}`} className={`flex w-full mb-6 ${isUser ? 'justify-end' : 'justify-start'}`}>
       <div className={`flex max-w-[85%] md:max-w-[75%] gap-3 ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
         
         {/* Avatar */}
@@ -59,6 +69,24 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
               <span className="bg-slate-800 px-2 py-0.5 rounded border border-slate-700 text-indigo-300 font-mono">
                 {message.usedModel}
               </span>
+              {message.orchestrationData.isFallback && (
+                <span
+                  className="flex items-center gap-1 bg-amber-900/30 px-2 py-0.5 rounded border border-amber-700/50 text-amber-300"
+                  title={message.orchestrationData.fallbackReason}
+                >
+                  <AlertTriangle size={12} /> Fallback route
+                </span>
+              )}
+              {message.personaName && (
+                <span className="flex items-center gap-1 bg-slate-800 px-2 py-0.5 rounded border border-slate-700 text-slate-300">
+                  <UserCircle2 size={12} /> {message.personaName}
+                </span>
+              )}
+              {message.orchestrationData.isManual && (
+                <span className="flex items-center gap-1 bg-slate-800 px-2 py-0.5 rounded border border-slate-700 text-slate-300">
+                  <Hand size={12} /> Manual
+                </span>
+              )}
               <span className="text-slate-500">
                 • {message.orchestrationData.reasoning}
               </span>
@@ -69,37 +97,116 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
             isUser 
               ? 'bg-indigo-600 text-white rounded-tr-none' 
               : 'bg-slate-800 text-slate-100 border border-slate-700 rounded-tl-none shadow-lg'
-          }`}>
+          } ${isFocused ? 'ring-2 ring-indigo-400 transition-shadow' : ''}`}>
             
+            {/* TOOL CALLS (before the answer they fed into) */}
+            {message.toolCalls && message.toolCalls.length > 0 && (
+              <ToolCallSteps calls={message.toolCalls} />
+            )}
+
             {/* TEXT CONTENT */}
             {message.content && (
               <div className="prose prose-invert prose-sm max-w-none">
-                <ReactMarkdown>{message.content}</ReactMarkdown>
+                <MarkdownContent content={content} sources={sources} />
+              </div>
+            )}
+
+            {/* SAFETY BLOCK (or a response cut short) */}
+            {message.safety && (
+              <SafetyNotice safety={message.safety} onUseSuggestion={onUseSuggestion} />
+            )}
+
+            {/* USER ATTACHMENTS */}
+            {message.attachments && message.attachments.length > 0 && (
+              <div className="mt-3">
+                <AttachmentList attachments={message.attachments} />
               </div>
             )}
 
+            {/* STREAMING CURSOR */}
+            {message.isStreaming && (
+              <span className="inline-block w-2 h-4 bg-indigo-400 animate-pulse align-middle" />
+            )}
+
             {/* SEARCH RESULTS */}
-            {message.groundingUrls && message.groundingUrls.length > 0 && (
-              <div className="mt-3 flex flex-col gap-1">
+            {message.searchQueries && message.searchQueries.length > 0 && (
+              <div className="mt-3 flex flex-wrap items-center gap-1.5 text-xs text-slate-400">
+                <Search size={12} /> Searched:
+                {message.searchQueries.map((query, idx) => (
+                  <span key={idx} className="bg-slate-900/60 border border-slate-700 px-2 py-0.5 rounded-full text-slate-300">
+                    {query}
+                  </span>
+                ))}
+              </div>
+            )}
+            {sources.length > 0 && (
+              <div className="mt-3 flex flex-col gap-1.5">
                 <div className="text-xs font-semibold text-slate-400 flex items-center gap-1">
-                  <Search size={12} /> Sources
+                  <Link2 size={12} /> Sources
                 </div>
-                {message.groundingUrls.map((url, idx) => (
-                  <a 
-                    key={idx} 
-                    href={url.uri} 
-                    target="_blank" 
-                    rel="noopener noreferrer"
-                    className="text-xs text-blue-400 hover:underline truncate block max-w-[300px]"
-                  >
-                    {url.title || url.uri}
-                  </a>
-                ))}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {sources.map((source, idx) => (
+                    <a
+                      key={source.uri}
+                      href={isWebLink(source.uri) ? source.uri : undefined}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-start gap-2 p-2 rounded-lg bg-slate-900/50 border border-slate-700 hover:border-slate-500 transition-colors"
+                    >
+                      <span className="flex-shrink-0 w-5 h-5 rounded bg-slate-700 text-[10px] text-blue-300 flex items-center justify-center">
+                        {idx + 1}
+                      </span>
+                      <span className="min-w-0">
+                        <span className="block text-xs text-slate-200 truncate">{source.title || source.uri}</span>
+                        <span className="block text-[11px] text-slate-500 truncate">{getSourceDomain(source)}</span>
+                      </span>
+                    </a>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* IMAGE CONTENT (multiple outputs) */}
+            {message.taskType === TaskType.IMAGE && message.attachmentUrls && message.attachmentUrls.length > 1 && (
+              <div className="mt-3 grid grid-cols-2 gap-2">
+                {message.attachmentUrls.map((url, idx) => {
+                  const isSelected = (message.selectedImageIndex ?? 0) === idx;
+                  return (
+                    <div key={idx} className="relative group">
+                      {/* The picked image is the one follow-up edits and variations use */}
+                      <button
+                        onClick={() => onSelectImage?.(message, idx)}
+                        title="Use this image for follow-up edits"
+                        className="block w-full"
+                      >
+                        <img
+                          src={url}
+                          alt={`Generated content ${idx + 1}`}
+                          className={`rounded-lg w-full h-auto border-2 transition-colors ${
+                            isSelected ? 'border-indigo-400' : 'border-slate-600 hover:border-slate-400'
+                          }`}
+                        />
+                      </button>
+                      {isSelected && (
+                        <span className="absolute top-2 left-2 flex items-center gap-1 bg-indigo-600 text-white text-[10px] px-1.5 py-0.5 rounded">
+                          <Check size={10} /> Selected
+                        </span>
+                      )}
+                      <a
+                        href={url}
+                        download={fileNameFor('image', url, idx + 1)}
+                        className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        Download
+                      </a>
+                    </div>
+                  );
+                })}
               </div>
             )}
 
             {/* IMAGE CONTENT */}
-            {message.taskType === TaskType.IMAGE && message.attachmentUrl && (
+            {message.taskType === TaskType.IMAGE && message.attachmentUrl && !(message.attachmentUrls && message.attachmentUrls.length > 1) && (
               <div className="mt-3 relative group">
                 <img 
                   src={message.attachmentUrl} 
@@ -108,7 +215,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
                 />
                 <a 
                   href={message.attachmentUrl} 
-                  download="generated-image.png"
+                  download={fileNameFor('image', message.attachmentUrl)}
                   className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity"
                 >
                   Download
@@ -116,6 +223,27 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
               </div>
             )}
 
+            {/* Variations of the (selected) image */}
+            {message.taskType === TaskType.IMAGE && message.attachmentUrl && onVariations && (
+              <div className="mt-2 flex items-center gap-2 text-xs text-slate-400">
+                <Layers size={12} /> Variations:
+                {VARIATION_COUNTS.map(count => (
+                  <button
+                    key={count}
+                    onClick={() => onVariations(message, count)}
+                    className="px-2 py-0.5 rounded border border-slate-700 hover:border-indigo-400 hover:text-indigo-300 transition-colors"
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* VIDEO JOB (still rendering, failed or cancelled) */}
+            {videoJob && (
+              <VideoJobCard job={videoJob} onCancel={onCancelVideoJob} onRetry={onRetryVideoJob} />
+            )}
+
             {/* VIDEO CONTENT */}
             {message.taskType === TaskType.VIDEO && message.attachmentUrl && (
               <div className="mt-3">
@@ -131,30 +259,58 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
               </div>
             )}
 
-            {/* AUDIO CONTENT */}
-            {message.taskType === TaskType.AUDIO && (
-              <div className="mt-3 flex items-center gap-3 bg-slate-900/50 p-3 rounded-lg border border-slate-700">
-                <button 
-                  onClick={handlePlayAudio}
-                  className="w-10 h-10 rounded-full bg-indigo-500 hover:bg-indigo-400 flex items-center justify-center transition-colors"
-                >
-                  {isPlaying ? <Pause size={18} fill="white" /> : <Play size={18} fill="white" className="ml-1" />}
-                </button>
-                <div className="flex flex-col">
-                  <span className="text-sm font-medium">Audio Response</span>
-                  <span className="text-xs text-slate-400">Generated by Gemini TTS</span>
-                </div>
-                {isPlaying && (
-                   <div className="flex gap-1 items-end h-4 ml-2">
-                     <div className="w-1 bg-indigo-400 h-2 animate-pulse"></div>
-                     <div className="w-1 bg-indigo-400 h-4 animate-pulse delay-75"></div>
-                     <div className="w-1 bg-indigo-400 h-3 animate-pulse delay-150"></div>
-                   </div>
-                )}
+            {/* AUDIO CONTENT (TTS output, or a text answer read aloud) */}
+            {message.audioData && (
+              <AudioPlayer data={message.audioData} mimeType={message.audioMimeType} fileName={fileNameFor('audio')} />
+            )}
+            {message.taskType === TaskType.AUDIO && message.voices && message.voices.length > 0 && (
+              <div className="mt-2 flex items-center gap-1.5 text-xs text-slate-400">
+                <Mic size={12} />
+                {message.voices.length > 1 ? 'Voices' : 'Voice'}: {describeVoices(message.voices)}
               </div>
             )}
 
           </div>
+
+          {/* Copy / regenerate (Assistant only) */}
+          {!isUser && message.content && !message.isStreaming && (
+            <div className="flex items-center gap-4 text-xs">
+              <button
+                onClick={() => copyToClipboard(toCopyableMarkdown(message)).then(() => {
+                  setCopied(true);
+                  setTimeout(() => setCopied(false), 1500);
+                }).catch(err => console.error("Could not copy message", err))}
+                className="flex items-center gap-1 text-slate-500 hover:text-slate-200 transition-colors"
+                title="Copy as markdown"
+              >
+                {copied ? <Check size={12} /> : <Copy size={12} />} {copied ? 'Copied' : 'Copy'}
+              </button>
+              {message.orchestrationData && onRegenerate && (
+                <RegenerateMenu
+                  currentType={message.taskType}
+                  currentModel={message.usedModel}
+                  onSelect={(type, model) => onRegenerate(message, type, model)}
+                />
+              )}
+            </div>
+          )}
+
+          {/* Generation settings used (Assistant only) */}
+          {!isUser && message.generationSettings && (describeSettings(message.generationSettings) || message.settingsWarnings) && (
+            <div className="text-[11px] text-slate-500 font-mono">
+              {describeSettings(message.generationSettings)}
+              {message.settingsWarnings?.map((warning, idx) => (
+                <div key={idx} className="text-amber-400/80">{warning}</div>
+              ))}
+            </div>
+          )}
+
+          {/* Tokens, latency and estimated cost (Assistant only) */}
+          {!isUser && usage && (
+            <div className="text-[11px] text-slate-500 font-mono">
+              {usage.totalTokens.toLocaleString()} tokens · {((usage.avgLatencyMs * usage.calls) / 1000).toFixed(1)}s · ~{formatCost(usage.estimatedCost)}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,50 @@
+import React, { useRef, useState } from 'react';
+import { Check, Copy, Download } from 'lucide-react';
+import { copyToClipboard, getCodeFileName, getCodeLanguage } from '../services/markdownService';
+import { downloadText } from '../services/exportService';
+
+interface CodeBlockProps {
+  className?: string; // Of the inner <code>, carries the language
+  children?: React.ReactNode;
+}
+
+// Fenced code block with a language label and copy/download buttons
+export const CodeBlock: React.FC<CodeBlockProps> = ({ className, children }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+  const language = getCodeLanguage(className);
+
+  // Read from the DOM so highlighted markup doesn't have to be flattened by hand
+  const getCode = () => preRef.current?.textContent || '';
+
+  const handleCopy = async () => {
+    try {
+      await copyToClipboard(getCode());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error("Could not copy code", err);
+    }
+  };
+
+  return (
+    <div className="not-prose my-3 rounded-lg border border-slate-700 bg-slate-950 overflow-hidden">
+      <div className="flex items-center gap-3 px-3 py-1.5 border-b border-slate-800 text-xs text-slate-400">
+        <span className="font-mono">{language || 'text'}</span>
+        <button onClick={handleCopy} className="ml-auto flex items-center gap-1 hover:text-slate-200" title="Copy code">
+          {copied ? <Check size={12} /> : <Copy size={12} />} {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button
+          onClick={() => downloadText(getCodeFileName(language), getCode(), 'text/plain')}
+          className="flex items-center gap-1 hover:text-slate-200"
+          title="Download code"
+        >
+          <Download size={12} /> Download
+        </button>
+      </div>
+      <pre ref={preRef} className="p-3 overflow-x-auto text-[13px] leading-relaxed">
+        {children}
+      </pre>
+    </div>
+  );
+};
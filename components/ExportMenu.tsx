@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { ExportFormat } from '../services/exportService';
+
+interface ExportMenuProps {
+  disabled?: boolean;
+  onExport: (format: ExportFormat) => void;
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string; description: string }> = [
+  { format: 'markdown', label: 'Markdown', description: 'Text and sources' },
+  { format: 'json', label: 'JSON', description: 'Everything, can be imported again' },
+  { format: 'html', label: 'HTML', description: 'Self-contained page with media' },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="p-2 text-slate-400 hover:text-slate-200 rounded-lg hover:bg-slate-800 disabled:opacity-50 transition-colors"
+        title="Export conversation"
+      >
+        <FileDown className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-60 bg-slate-950 border border-slate-700 rounded-lg shadow-xl py-1">
+          {FORMATS.map(({ format, label, description }) => (
+            <button
+              key={format}
+              onClick={() => {
+                setIsOpen(false);
+                onExport(format);
+              }}
+              className="w-full flex flex-col px-3 py-1.5 text-left hover:bg-slate-800"
+            >
+              <span className="text-sm text-slate-200">{label}</span>
+              <span className="text-[11px] text-slate-500">{description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
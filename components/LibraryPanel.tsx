@@ -0,0 +1,257 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Trash2, FileDown, FileUp } from 'lucide-react';
+import { Persona, PromptTemplate, TaskType } from '../types';
+import { TTS_VOICES, listModels } from '../services/modelRegistry';
+import { createId, getTemplateVariables, mergeById, parseLibraryJson, toLibraryJson } from '../services/personaService';
+import { downloadText } from '../services/exportService';
+
+interface LibraryPanelProps {
+  personas: Persona[]; // User personas (without the built-in default)
+  templates: PromptTemplate[];
+  onSave: (personas: Persona[], templates: PromptTemplate[]) => void;
+  onClose: () => void;
+}
+
+type Tab = 'personas' | 'templates';
+
+const PERSONA_TASKS = [TaskType.TEXT, TaskType.SEARCH, TaskType.AUDIO];
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100";
+
+// Edits personas and prompt templates, and shares them as a JSON file
+export const LibraryPanel: React.FC<LibraryPanelProps> = ({ personas, templates, onSave, onClose }) => {
+  const [tab, setTab] = useState<Tab>('personas');
+  const [draftPersonas, setDraftPersonas] = useState(personas);
+  const [draftTemplates, setDraftTemplates] = useState(templates);
+  const [selectedId, setSelectedId] = useState<string | null>(personas[0]?.id ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const models = listModels().filter(m => m.taskTypes.some(t => PERSONA_TASKS.includes(t)));
+  const persona = draftPersonas.find(p => p.id === selectedId);
+  const template = draftTemplates.find(t => t.id === selectedId);
+
+  const switchTab = (next: Tab) => {
+    setTab(next);
+    setSelectedId((next === 'personas' ? draftPersonas : draftTemplates)[0]?.id ?? null);
+  };
+
+  const updatePersona = (patch: Partial<Persona>) => {
+    setDraftPersonas(prev => prev.map(p => (p.id === selectedId ? { ...p, ...patch } : p)));
+  };
+
+  const updateTemplate = (patch: Partial<PromptTemplate>) => {
+    setDraftTemplates(prev => prev.map(t => (t.id === selectedId ? { ...t, ...patch } : t)));
+  };
+
+  const handleAdd = () => {
+    const id = createId();
+    if (tab === 'personas') {
+      setDraftPersonas(prev => [...prev, { id, name: 'New persona', systemInstruction: '' }]);
+    } else {
+      setDraftTemplates(prev => [...prev, { id, name: 'New template', body: '' }]);
+    }
+    setSelectedId(id);
+  };
+
+  const handleDelete = () => {
+    if (tab === 'personas') {
+      setDraftPersonas(prev => prev.filter(p => p.id !== selectedId));
+    } else {
+      setDraftTemplates(prev => prev.filter(t => t.id !== selectedId));
+    }
+    setSelectedId(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseLibraryJson(await file.text());
+      setDraftPersonas(prev => mergeById(prev, imported.personas));
+      setDraftTemplates(prev => mergeById(prev, imported.templates));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Could not import this file.");
+    }
+  };
+
+  const items = tab === 'personas' ? draftPersonas : draftTemplates;
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl bg-slate-950 border border-slate-800 rounded-xl shadow-2xl flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="font-semibold">Personas & prompt templates</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200"><X size={18} /></button>
+        </div>
+
+        <div className="flex gap-1 p-2 border-b border-slate-800">
+          {(['personas', 'templates'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => switchTab(t)}
+              className={`flex-1 text-xs py-1.5 rounded-md capitalize ${
+                tab === t ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-800'
+              }`}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* List */}
+          <div className="w-48 flex-shrink-0 border-r border-slate-800 p-2 overflow-y-auto">
+            {items.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setSelectedId(item.id)}
+                className={`w-full text-left text-sm px-2 py-1.5 rounded-md truncate ${
+                  item.id === selectedId ? 'bg-slate-800 text-slate-100' : 'text-slate-400 hover:bg-slate-900'
+                }`}
+              >
+                {item.name || 'Untitled'}
+              </button>
+            ))}
+            <button
+              onClick={handleAdd}
+              className="w-full flex items-center gap-1.5 text-xs px-2 py-1.5 mt-1 text-indigo-300 hover:text-indigo-200"
+            >
+              <Plus size={14} /> {tab === 'personas' ? 'New persona' : 'New template'}
+            </button>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 p-4 space-y-3 overflow-y-auto">
+            {tab === 'personas' && persona && (
+              <>
+                <label className="block">
+                  <span className="block text-xs text-slate-400 mb-1">Name</span>
+                  <input value={persona.name} onChange={(e) => updatePersona({ name: e.target.value })} className={inputClass} />
+                </label>
+                <label className="block">
+                  <span className="block text-xs text-slate-400 mb-1">System instruction (text and search answers)</span>
+                  <textarea
+                    value={persona.systemInstruction}
+                    onChange={(e) => updatePersona({ systemInstruction: e.target.value })}
+                    rows={5}
+                    placeholder="You are a concise senior engineer. Answer with code first…"
+                    className={inputClass}
+                  />
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className="block text-xs text-slate-400 mb-1">Preferred model</span>
+                    <select
+                      value={persona.preferredModel || ''}
+                      onChange={(e) => updatePersona({ preferredModel: e.target.value || undefined })}
+                      className={inputClass}
+                    >
+                      <option value="">Routed model</option>
+                      {models.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="block text-xs text-slate-400 mb-1">Default voice</span>
+                    <select
+                      value={persona.defaultVoice || ''}
+                      onChange={(e) => updatePersona({ defaultVoice: e.target.value || undefined })}
+                      className={inputClass}
+                    >
+                      <option value="">Model default</option>
+                      {TTS_VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+                    </select>
+                  </label>
+                </div>
+                <label className="block">
+                  <span className="block text-xs text-slate-400 mb-1">Greeting for new chats</span>
+                  <textarea
+                    value={persona.greeting || ''}
+                    onChange={(e) => updatePersona({ greeting: e.target.value || undefined })}
+                    rows={2}
+                    className={inputClass}
+                  />
+                </label>
+              </>
+            )}
+
+            {tab === 'templates' && template && (
+              <>
+                <label className="block">
+                  <span className="block text-xs text-slate-400 mb-1">Name</span>
+                  <input value={template.name} onChange={(e) => updateTemplate({ name: e.target.value })} className={inputClass} />
+                </label>
+                <label className="block">
+                  <span className="block text-xs text-slate-400 mb-1">Prompt</span>
+                  <textarea
+                    value={template.body}
+                    onChange={(e) => updateTemplate({ body: e.target.value })}
+                    rows={8}
+                    placeholder="Review this {{language}} code for bugs: {{code}}"
+                    className={`${inputClass} font-mono`}
+                  />
+                </label>
+                <p className="text-[11px] text-slate-500">
+                  {getTemplateVariables(template.body).length > 0
+                    ? `Variables: ${getTemplateVariables(template.body).join(', ')}`
+                    : 'Use {{name}} for parts to fill in when inserting.'}
+                </p>
+              </>
+            )}
+
+            {(tab === 'personas' ? persona : template) ? (
+              <button onClick={handleDelete} className="flex items-center gap-1.5 text-xs text-red-300 hover:text-red-200">
+                <Trash2 size={12} /> Delete
+              </button>
+            ) : (
+              <p className="text-sm text-slate-500">
+                {tab === 'personas'
+                  ? 'Personas change how text, search and speech answers sound. The built-in Nexus persona is always available.'
+                  : 'Templates are reusable prompts you can insert from the composer.'}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="px-4 pb-2 text-xs text-red-300">{error}</p>}
+
+        <div className="flex items-center gap-3 p-4 border-t border-slate-800">
+          <button
+            onClick={() => downloadText('nexus-library.json', toLibraryJson(draftPersonas, draftTemplates), 'application/json')}
+            className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-slate-200"
+          >
+            <FileDown size={14} /> Export
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-slate-200"
+          >
+            <FileUp size={14} /> Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => {
+              onSave(draftPersonas, draftTemplates);
+              onClose();
+            }}
+            className="ml-auto px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
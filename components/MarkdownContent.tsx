@@ -0,0 +1,69 @@
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/atom-one-dark.css';
+import { CodeBlock } from './CodeBlock';
+import { CITATION_HREF_PREFIX, getSourceDomain } from '../services/citationService';
+import { isExternalLink, isWebLink } from '../services/markdownService';
+
+interface MarkdownContentProps {
+  content: string;
+  sources?: Array<{ title: string; uri: string }>; // Targets of inline citation markers
+}
+
+// GFM, KaTeX math and highlighted code. Raw HTML in model output is never rendered.
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, sources = [] }) => {
+  const components: Components = {
+    a: ({ href, children }) => {
+      // Citation markers render as superscript links to their source
+      const source = href?.startsWith(CITATION_HREF_PREFIX)
+        ? sources[Number(href.slice(CITATION_HREF_PREFIX.length))]
+        : undefined;
+      if (source && isWebLink(source.uri)) {
+        return (
+          <sup>
+            <a
+              href={source.uri}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={`${source.title} (${getSourceDomain(source)})`}
+              className="ml-0.5 px-1 rounded bg-slate-700 text-[10px] text-blue-300 no-underline hover:bg-slate-600"
+            >
+              {children}
+            </a>
+          </sup>
+        );
+      }
+      if (!isExternalLink(href)) return <span className="underline decoration-dotted">{children}</span>;
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-blue-400 hover:underline">
+          {children}
+        </a>
+      );
+    },
+    pre: ({ children }) => {
+      const code = React.Children.toArray(children)[0];
+      const className = React.isValidElement<{ className?: string }>(code) ? code.props.className : undefined;
+      return <CodeBlock className={className}>{children}</CodeBlock>;
+    },
+    table: ({ children }) => (
+      <div className="overflow-x-auto">
+        <table>{children}</table>
+      </div>
+    ),
+  };
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: false }]]}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { Archive, Download, Film, Image as ImageIcon, Loader2, Music, X } from 'lucide-react';
+import { ChatSession, MediaItem, MediaKind } from '../types';
+import {
+  MEDIA_KIND_LABELS,
+  collectMedia,
+  createMediaZip,
+  filterMedia,
+  getItemFileName,
+  getZipFileName,
+  listMediaModels,
+  toMediaBlob,
+} from '../services/mediaService';
+import { downloadBlob } from '../services/exportService';
+
+interface MediaGalleryProps {
+  sessions: ChatSession[];
+  onOpen: (item: MediaItem) => void; // Jump to the message that produced the item
+  onClose: () => void;
+}
+
+const KIND_ICONS: Record<MediaKind, React.ElementType> = {
+  image: ImageIcon,
+  video: Film,
+  audio: Music,
+};
+
+const MediaPreview: React.FC<{ item: MediaItem }> = ({ item }) => {
+  if (item.kind === 'image') {
+    return <img src={item.url} alt={item.prompt} className="w-full h-32 object-cover" />;
+  }
+  if (item.kind === 'video') {
+    return <video src={item.url} muted preload="metadata" className="w-full h-32 object-cover bg-black" />;
+  }
+  return (
+    <div className="w-full h-32 flex items-center justify-center bg-slate-900 text-slate-500">
+      <Music size={28} />
+    </div>
+  );
+};
+
+export const MediaGallery: React.FC<MediaGalleryProps> = ({ sessions, onOpen, onClose }) => {
+  const [kind, setKind] = useState<MediaKind | undefined>();
+  const [model, setModel] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isZipping, setIsZipping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const allItems = useMemo(() => collectMedia(sessions), [sessions]);
+  const models = useMemo(() => listMediaModels(filterMedia(allItems, { kind })), [allItems, kind]);
+  const items = useMemo(() => filterMedia(allItems, { kind, model: model || undefined }), [allItems, kind, model]);
+  const selectedItems = items.filter(item => selected.has(item.id));
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDownload = async (item: MediaItem) => {
+    try {
+      downloadBlob(getItemFileName(item), await toMediaBlob(item));
+    } catch (err) {
+      console.error("Media download failed", err);
+      setError("Couldn't download that item.");
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    setIsZipping(true);
+    setError(null);
+    try {
+      downloadBlob(getZipFileName(), await createMediaZip(selectedItems));
+    } catch (err) {
+      console.error("Zip download failed", err);
+      setError("Couldn't build the zip. Some media may no longer be available.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const kindButton = (value: MediaKind | undefined, label: string) => (
+    <button
+      key={label}
+      onClick={() => { setKind(value); setModel(''); }}
+      className={`px-3 py-1 rounded-full border text-xs transition-colors ${
+        kind === value ? 'border-indigo-500 bg-indigo-500/20 text-indigo-200' : 'border-slate-700 text-slate-400 hover:text-slate-200'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl bg-slate-950 border border-slate-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="font-semibold">Media library <span className="text-slate-500 font-normal text-sm">({allItems.length})</span></h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {kindButton(undefined, 'All')}
+            {(Object.keys(MEDIA_KIND_LABELS) as MediaKind[]).map(k => kindButton(k, MEDIA_KIND_LABELS[k]))}
+            <select
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-indigo-500"
+              aria-label="Filter by model"
+            >
+              <option value="">All models</option>
+              {models.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+
+            <div className="ml-auto flex items-center gap-3 text-xs">
+              {items.length > 0 && (
+                <button
+                  onClick={() => setSelected(selectedItems.length === items.length ? new Set() : new Set(items.map(item => item.id)))}
+                  className="text-slate-400 hover:text-slate-200"
+                >
+                  {selectedItems.length === items.length ? 'Clear selection' : 'Select all'}
+                </button>
+              )}
+              <button
+                onClick={handleDownloadZip}
+                disabled={selectedItems.length === 0 || isZipping}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50 transition-colors"
+              >
+                {isZipping ? <Loader2 size={14} className="animate-spin" /> : <Archive size={14} />}
+                Download zip{selectedItems.length > 0 ? ` (${selectedItems.length})` : ''}
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-red-300">{error}</p>}
+
+          <div className="max-h-[65vh] overflow-y-auto">
+            {items.length === 0 ? (
+              <p className="py-12 text-center text-sm text-slate-500">
+                {allItems.length === 0 ? 'No generated images, videos or audio yet.' : 'Nothing matches these filters.'}
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {items.map(item => {
+                  const KindIcon = KIND_ICONS[item.kind];
+                  const isSelected = selected.has(item.id);
+                  return (
+                    <div
+                      key={item.id}
+                      className={`relative rounded-lg overflow-hidden border bg-slate-900/60 ${
+                        isSelected ? 'border-indigo-400' : 'border-slate-700'
+                      }`}
+                    >
+                      <button onClick={() => onOpen(item)} className="block w-full" title="Show in conversation">
+                        <MediaPreview item={item} />
+                      </button>
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => toggle(item.id)}
+                        className="absolute top-2 left-2 w-4 h-4 accent-indigo-500"
+                        aria-label={`Select ${getItemFileName(item)}`}
+                      />
+                      <div className="p-2 space-y-1">
+                        <p className="text-xs text-slate-200 line-clamp-2" title={item.prompt}>{item.prompt}</p>
+                        <div className="flex items-center gap-1.5 text-[11px] text-slate-500">
+                          <KindIcon size={12} />
+                          <span className="font-mono truncate">{item.model}</span>
+                          <span className="ml-auto flex-shrink-0">{new Date(item.timestamp).toLocaleDateString()}</span>
+                          <button
+                            onClick={() => handleDownload(item)}
+                            className="flex-shrink-0 text-slate-400 hover:text-slate-200"
+                            title={`Download ${getItemFileName(item)}`}
+                          >
+                            <Download size={12} />
+                          </button>
+                        </div>
+                        <div className="text-[11px] text-slate-600 truncate">{item.sessionName}</div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
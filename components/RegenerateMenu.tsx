@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { TaskType } from '../types';
+import { listModels } from '../services/modelRegistry';
+
+interface RegenerateMenuProps {
+  currentType?: TaskType;
+  currentModel?: string;
+  onSelect: (type: TaskType, model: string) => void;
+}
+
+// Offers every (task type, model) pair from the registry except the one already used
+export const RegenerateMenu: React.FC<RegenerateMenuProps> = ({ currentType, currentModel, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const targets = listModels().flatMap(model =>
+    model.taskTypes.map(type => ({ type, model }))
+  ).filter(t => !(t.type === currentType && t.model.id === currentModel));
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1 text-slate-500 hover:text-slate-200 transition-colors"
+        title="Regenerate with another model"
+      >
+        <RefreshCw size={12} /> Regenerate with…
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 z-10 w-64 max-h-72 overflow-y-auto bg-slate-950 border border-slate-700 rounded-lg shadow-xl py-1">
+          {targets.map(({ type, model }) => (
+            <button
+              key={`${type}-${model.id}`}
+              onClick={() => {
+                setIsOpen(false);
+                onSelect(type, model.id);
+              }}
+              className="w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-xs hover:bg-slate-800"
+            >
+              <span className="text-slate-200">{model.label}</span>
+              <span className="font-mono text-[10px] text-slate-500">{type}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
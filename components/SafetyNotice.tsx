@@ -0,0 +1,51 @@
+import React from 'react';
+import { ShieldAlert, Wand2 } from 'lucide-react';
+import { SafetyInfo } from '../types';
+import { describeBlock, getCategoryLabel } from '../services/safetyService';
+
+interface SafetyNoticeProps {
+  safety: SafetyInfo;
+  onUseSuggestion?: (prompt: string) => void;
+}
+
+export const SafetyNotice: React.FC<SafetyNoticeProps> = ({ safety, onUseSuggestion }) => (
+  <div className={`mt-3 w-full min-w-[280px] p-3 rounded-lg border ${
+    safety.blocked ? 'bg-red-950/30 border-red-800/60' : 'bg-amber-950/30 border-amber-800/60'
+  }`}>
+    <div className={`flex items-start gap-2 text-sm ${safety.blocked ? 'text-red-200' : 'text-amber-200'}`}>
+      <ShieldAlert size={16} className="flex-shrink-0 mt-0.5" />
+      <span>{describeBlock(safety)}</span>
+    </div>
+    {safety.message && <p className="mt-1 text-xs text-slate-400">{safety.message}</p>}
+
+    {safety.ratings.length > 0 && (
+      <div className="mt-2 flex flex-wrap gap-1.5 text-[11px]">
+        {safety.ratings.map(rating => (
+          <span
+            key={rating.category}
+            className={`px-2 py-0.5 rounded-full border ${
+              rating.blocked ? 'border-red-700/60 text-red-300' : 'border-slate-700 text-slate-400'
+            }`}
+          >
+            {getCategoryLabel(rating.category)}: {rating.probability.toLowerCase()}
+          </span>
+        ))}
+      </div>
+    )}
+
+    {safety.suggestedPrompt && (
+      <div className="mt-3 p-2 rounded bg-slate-900/60 border border-slate-700">
+        <div className="text-xs text-slate-400 mb-1">Try rephrasing it as:</div>
+        <p className="text-sm text-slate-200 whitespace-pre-wrap">{safety.suggestedPrompt}</p>
+        {onUseSuggestion && (
+          <button
+            onClick={() => onUseSuggestion(safety.suggestedPrompt!)}
+            className="mt-2 flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200"
+          >
+            <Wand2 size={12} /> Use this prompt
+          </button>
+        )}
+      </div>
+    )}
+  </div>
+);
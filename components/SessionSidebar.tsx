@@ -0,0 +1,133 @@
+import React, { useRef, useState } from 'react';
+import { Plus, MessageSquare, Pencil, Trash2, Check, X, FileUp } from 'lucide-react';
+import { ChatSession } from '../types';
+
+interface SessionSidebarProps {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  disabled?: boolean;
+  onCreate: () => void;
+  onSelect: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+export const SessionSidebar: React.FC<SessionSidebarProps> = ({
+  sessions,
+  activeSessionId,
+  disabled,
+  onCreate,
+  onSelect,
+  onRename,
+  onDelete,
+  onImport,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startEditing = (session: ChatSession) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="flex flex-col w-64 flex-none border-r border-slate-800 bg-slate-950/60">
+      <div className="p-3 border-b border-slate-800">
+        <button
+          onClick={onCreate}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-2 text-sm py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white transition-colors"
+        >
+          <Plus size={16} /> New chat
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={disabled}
+          className="w-full mt-2 flex items-center justify-center gap-2 text-xs py-1.5 rounded-lg text-slate-400 hover:text-slate-200 hover:bg-slate-800 disabled:opacity-50 transition-colors"
+          title="Import a JSON export"
+        >
+          <FileUp size={14} /> Import chat
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <nav className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sessions.map((session) => {
+          const isActive = session.id === activeSessionId;
+          const isEditing = session.id === editingId;
+
+          return (
+            <div
+              key={session.id}
+              className={`group flex items-center gap-2 px-2 py-2 rounded-lg text-sm ${
+                isActive ? 'bg-slate-800 text-slate-100' : 'text-slate-400 hover:bg-slate-800/50'
+              }`}
+            >
+              <MessageSquare size={14} className="flex-none" />
+
+              {isEditing ? (
+                <>
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-1 text-slate-100"
+                  />
+                  <button onClick={commitRename} className="text-emerald-400 hover:text-emerald-300"><Check size={14} /></button>
+                  <button onClick={() => setEditingId(null)} className="text-slate-500 hover:text-slate-300"><X size={14} /></button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onSelect(session.id)}
+                    disabled={disabled}
+                    className="flex-1 min-w-0 text-left truncate disabled:cursor-not-allowed"
+                    title={session.name}
+                  >
+                    {session.name}
+                  </button>
+                  <div className="flex-none hidden group-hover:flex gap-1">
+                    <button onClick={() => startEditing(session)} className="text-slate-500 hover:text-slate-200" title="Rename">
+                      <Pencil size={13} />
+                    </button>
+                    <button
+                      onClick={() => onDelete(session.id)}
+                      disabled={disabled}
+                      className="text-slate-500 hover:text-red-400 disabled:opacity-50"
+                      title="Delete"
+                    >
+                      <Trash2 size={13} />
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </nav>
+    </aside>
+  );
+};
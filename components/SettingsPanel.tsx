@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { ContextWindow, GenerationSettings, TaskSettings, TaskType } from '../types';
+import { TASK_SETTING_FIELDS, getSettingOptions } from '../services/settingsService';
+import { CONTEXT_WINDOW_LIMITS } from '../services/historyService';
+import { SAFETY_THRESHOLD_LABELS } from '../services/safetyService';
+
+interface SettingsPanelProps {
+  settings: TaskSettings;
+  override: TaskSettings | null;
+  contextWindow: ContextWindow;
+  // The context window is always saved as the default; scope applies to task settings
+  onSave: (settings: TaskSettings, scope: 'default' | 'next', contextWindow: ContextWindow) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<keyof GenerationSettings, string> = {
+  aspectRatio: 'Aspect ratio',
+  imageSize: 'Image size',
+  numberOfOutputs: 'Number of outputs',
+  videoResolution: 'Resolution',
+  durationSeconds: 'Duration (seconds)',
+  voiceName: 'Voice',
+  thinkingBudget: 'Thinking budget (tokens)',
+  safetyThreshold: 'Safety filter',
+};
+
+const CONTEXT_WINDOW_LABELS: Record<keyof ContextWindow, string> = {
+  maxTurns: 'Earlier messages to include',
+  maxTokens: 'History budget (tokens)',
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, override, contextWindow, onSave, onClose }) => {
+  const [activeType, setActiveType] = useState<TaskType>(TaskType.IMAGE);
+  const [scope, setScope] = useState<'default' | 'next'>(override ? 'next' : 'default');
+  const [draft, setDraft] = useState<TaskSettings>(override || settings);
+  const [windowDraft, setWindowDraft] = useState<ContextWindow>(contextWindow);
+
+  const options = getSettingOptions(activeType);
+  const values = draft[activeType] || {};
+
+  const setField = (key: keyof GenerationSettings, value: string | number | undefined) => {
+    setDraft(prev => ({ ...prev, [activeType]: { ...prev[activeType], [key]: value } }));
+  };
+
+  const choicesFor = (key: keyof GenerationSettings): Array<string | number> => {
+    switch (key) {
+      case 'aspectRatio': return options.aspectRatios || [];
+      case 'imageSize': return options.imageSizes || [];
+      case 'videoResolution': return options.videoResolutions || [];
+      case 'durationSeconds': return options.durations || [];
+      case 'voiceName': return options.voices || [];
+      case 'safetyThreshold': return options.safetyThresholds || [];
+      case 'numberOfOutputs': return Array.from({ length: options.maxOutputs || 1 }, (_, i) => i + 1);
+      default: return [];
+    }
+  };
+
+  const renderField = (key: keyof GenerationSettings) => {
+    if (key === 'thinkingBudget') {
+      return (
+        <input
+          type="number"
+          min={options.thinkingBudget?.min}
+          max={options.thinkingBudget?.max}
+          step={128}
+          placeholder="Model default"
+          value={values.thinkingBudget ?? ''}
+          onChange={(e) => setField(key, e.target.value === '' ? undefined : Number(e.target.value))}
+          className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100"
+        />
+      );
+    }
+
+    const isNumeric = key === 'numberOfOutputs' || key === 'durationSeconds';
+    return (
+      <select
+        value={values[key] ?? ''}
+        onChange={(e) => setField(key, e.target.value === '' ? undefined : isNumeric ? Number(e.target.value) : e.target.value)}
+        className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100"
+      >
+        <option value="">Model default</option>
+        {choicesFor(key).map(choice => (
+          <option key={choice} value={choice}>{key === 'safetyThreshold' ? SAFETY_THRESHOLD_LABELS[choice] || choice : choice}</option>
+        ))}
+      </select>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-slate-950 border border-slate-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="font-semibold">Generation settings</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200"><X size={18} /></button>
+        </div>
+
+        <div className="flex gap-1 p-2 border-b border-slate-800">
+          {Object.values(TaskType).map(type => (
+            <button
+              key={type}
+              onClick={() => setActiveType(type)}
+              className={`flex-1 text-xs py-1.5 rounded-md capitalize ${
+                activeType === type ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-800'
+              }`}
+            >
+              {type.toLowerCase()}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-4 space-y-3">
+          {TASK_SETTING_FIELDS[activeType].map(key => (
+            <label key={key} className="block">
+              <span className="block text-xs text-slate-400 mb-1">{FIELD_LABELS[key]}</span>
+              {renderField(key)}
+            </label>
+          ))}
+          <p className="text-[11px] text-slate-500">
+            Values a model doesn't support are ignored and noted on the message.
+          </p>
+        </div>
+
+        <div className="p-4 space-y-3 border-t border-slate-800">
+          <h3 className="text-xs font-medium text-slate-300">Conversation memory</h3>
+          <div className="grid grid-cols-2 gap-3">
+            {(Object.keys(CONTEXT_WINDOW_LABELS) as Array<keyof ContextWindow>).map(key => (
+              <label key={key} className="block">
+                <span className="block text-xs text-slate-400 mb-1">{CONTEXT_WINDOW_LABELS[key]}</span>
+                <input
+                  type="number"
+                  min={CONTEXT_WINDOW_LIMITS[key].min}
+                  max={CONTEXT_WINDOW_LIMITS[key].max}
+                  value={windowDraft[key] || ''}
+                  onChange={(e) => setWindowDraft(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100"
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-500">
+            How much of the chat is sent along with each request. Applies to every message.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between p-4 border-t border-slate-800">
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={scope === 'next'}
+              onChange={(e) => setScope(e.target.checked ? 'next' : 'default')}
+            />
+            Only for the next message
+          </label>
+          <button
+            onClick={() => onSave(draft, scope, windowDraft)}
+            className="px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
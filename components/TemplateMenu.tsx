@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { FileText } from 'lucide-react';
+import { PromptTemplate } from '../types';
+import { fillTemplate, getTemplateVariables } from '../services/personaService';
+
+interface TemplateMenuProps {
+  templates: PromptTemplate[];
+  onInsert: (text: string) => void;
+  onManage: () => void;
+}
+
+// Composer picker for prompt templates; asks for {{variables}} before inserting
+export const TemplateMenu: React.FC<TemplateMenuProps> = ({ templates, onInsert, onManage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState<PromptTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const close = () => {
+    setIsOpen(false);
+    setSelected(null);
+    setValues({});
+  };
+
+  const choose = (template: PromptTemplate) => {
+    if (getTemplateVariables(template.body).length === 0) {
+      onInsert(template.body);
+      close();
+    } else {
+      setSelected(template);
+    }
+  };
+
+  const variables = selected ? getTemplateVariables(selected.body) : [];
+
+  const insertFilled = () => {
+    if (!selected) return;
+    onInsert(fillTemplate(selected.body, values));
+    close();
+  };
+
+  return (
+    <div className="relative mb-0.5">
+      <button
+        type="button"
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        title="Insert a prompt template"
+        className="p-3 text-slate-400 hover:text-slate-200 rounded-lg transition-colors"
+      >
+        <FileText size={18} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 bottom-full mb-2 z-20 w-72 bg-slate-950 border border-slate-700 rounded-lg shadow-xl p-1 text-sm">
+          {selected ? (
+            // Not a <form>: this sits inside the composer's form
+            <div className="p-2 space-y-2">
+              <div className="text-xs font-semibold text-slate-300">{selected.name}</div>
+              {variables.map((name, idx) => (
+                <label key={name} className="block">
+                  <span className="block text-[11px] text-slate-500 mb-0.5">{name}</span>
+                  <input
+                    autoFocus={idx === 0}
+                    value={values[name] || ''}
+                    onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        insertFilled();
+                      }
+                    }}
+                    className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-100"
+                  />
+                </label>
+              ))}
+              <div className="flex justify-end gap-3 pt-1 text-xs">
+                <button type="button" onClick={() => setSelected(null)} className="text-slate-400 hover:text-slate-200">
+                  Back
+                </button>
+                <button type="button" onClick={insertFilled} className="px-2.5 py-1 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white">
+                  Insert
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {templates.length === 0 && (
+                <p className="px-3 py-2 text-xs text-slate-500">No templates yet.</p>
+              )}
+              <div className="max-h-64 overflow-y-auto">
+                {templates.map(template => (
+                  <button
+                    key={template.id}
+                    type="button"
+                    onClick={() => choose(template)}
+                    className="w-full flex flex-col px-3 py-1.5 rounded-md text-left hover:bg-slate-800"
+                  >
+                    <span className="text-slate-200">{template.name}</span>
+                    <span className="text-[11px] text-slate-500 truncate">{template.body}</span>
+                  </button>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  close();
+                  onManage();
+                }}
+                className="w-full px-3 py-1.5 mt-1 border-t border-slate-800 text-left text-xs text-indigo-300 hover:text-indigo-200"
+              >
+                Manage templates…
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
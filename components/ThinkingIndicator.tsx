@@ -5,9 +5,10 @@ interface ThinkingIndicatorProps {
   step: 'orchestrating' | 'generating';
   model?: string;
   taskType?: string;
+  progress?: { current: number; total: number } | null; // Multi-step plans only
 }
 
-export const ThinkingIndicator: React.FC<ThinkingIndicatorProps> = ({ step, model, taskType }) => {
+export const ThinkingIndicator: React.FC<ThinkingIndicatorProps> = ({ step, model, taskType, progress }) => {
   return (
     <div className="flex items-center space-x-3 text-sm text-indigo-300 bg-slate-800/50 p-3 rounded-lg border border-slate-700/50 backdrop-blur-sm animate-pulse w-fit mt-2">
       {step === 'orchestrating' ? (
@@ -19,6 +20,11 @@ export const ThinkingIndicator: React.FC<ThinkingIndicatorProps> = ({ step, mode
         <>
           <Loader2 className="w-4 h-4 animate-spin" />
           <div className="flex items-center gap-2">
+            {progress && (
+              <span className="text-xs font-mono text-slate-400 bg-slate-900/60 px-2 py-0.5 rounded border border-slate-700">
+                Step {progress.current}/{progress.total}
+              </span>
+            )}
             <span>Routing to</span>
             <span className="font-mono font-bold text-indigo-400 bg-indigo-950/50 px-2 py-0.5 rounded text-xs border border-indigo-500/30">
               {model}
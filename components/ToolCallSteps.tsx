@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Wrench, AlertTriangle } from 'lucide-react';
+import { ToolCallRecord } from '../types';
+
+interface ToolCallStepsProps {
+  calls: ToolCallRecord[];
+}
+
+const formatJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+// Compact one-line view of the arguments, e.g. `expression: "2 + 2"`
+const summarizeArgs = (args: Record<string, unknown>) =>
+  Object.entries(args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ');
+
+// Each function call the model made, expandable to its arguments and result
+export const ToolCallSteps: React.FC<ToolCallStepsProps> = ({ calls }) => {
+  const [openIds, setOpenIds] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setOpenIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="mb-3 flex flex-col gap-1">
+      {calls.map(call => {
+        const isOpen = openIds.has(call.id);
+        return (
+          <div key={call.id} className="rounded-lg border border-slate-700 bg-slate-900/50 text-xs">
+            <button
+              onClick={() => toggle(call.id)}
+              className="w-full flex items-center gap-2 px-2.5 py-1.5 text-left text-slate-300 hover:text-slate-100"
+            >
+              {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              {call.error ? <AlertTriangle size={12} className="text-amber-400" /> : <Wrench size={12} className="text-indigo-300" />}
+              <span className="font-mono">{call.name}</span>
+              <span className="truncate text-slate-500 font-mono">{summarizeArgs(call.args)}</span>
+              <span className="ml-auto flex-shrink-0 text-slate-500">{call.durationMs} ms</span>
+            </button>
+            {isOpen && (
+              <div className="px-2.5 pb-2 flex flex-col gap-2">
+                <div>
+                  <div className="text-slate-500 mb-0.5">Arguments</div>
+                  <pre className="p-2 rounded bg-slate-950 overflow-x-auto text-slate-300">{formatJson(call.args)}</pre>
+                </div>
+                <div>
+                  <div className="text-slate-500 mb-0.5">{call.error ? 'Error' : 'Result'}</div>
+                  <pre className={`p-2 rounded bg-slate-950 overflow-x-auto ${call.error ? 'text-amber-300' : 'text-slate-300'}`}>
+                    {call.error || formatJson(call.result)}
+                  </pre>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
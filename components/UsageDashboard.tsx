@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { UsageBudget } from '../types';
+import { getModel } from '../services/modelRegistry';
+import {
+  UsageTotals,
+  breakdownByModel,
+  clearLedger,
+  formatCost,
+  getSessionRecords,
+  getTodayRecords,
+  loadBudget,
+  loadLedger,
+  saveBudget,
+  summarize,
+} from '../services/usageService';
+
+interface UsageDashboardProps {
+  activeSessionId: string | null;
+  onClose: () => void;
+}
+
+const formatLatency = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`);
+
+const TotalsCard: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <div className="flex-1 bg-slate-900 border border-slate-800 rounded-lg p-3">
+    <div className="text-[11px] uppercase tracking-wide text-slate-500">{label}</div>
+    <div className="text-lg font-semibold text-slate-100">{formatCost(totals.estimatedCost)}</div>
+    <div className="text-[11px] text-slate-400">
+      {totals.calls} calls · {totals.totalTokens.toLocaleString()} tokens
+    </div>
+  </div>
+);
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ activeSessionId, onClose }) => {
+  const [ledger, setLedger] = useState(loadLedger);
+  const [budget, setBudget] = useState<UsageBudget>(loadBudget);
+
+  const today = useMemo(() => summarize(getTodayRecords(ledger)), [ledger]);
+  const session = useMemo(() => summarize(getSessionRecords(ledger, activeSessionId)), [ledger, activeSessionId]);
+  const allTime = useMemo(() => summarize(ledger), [ledger]);
+  const byModel = useMemo(() => breakdownByModel(ledger), [ledger]);
+
+  const setLimit = (key: 'dailyLimitUsd' | 'sessionLimitUsd', value: string) => {
+    setBudget(prev => ({ ...prev, [key]: value === '' ? undefined : Number(value) }));
+  };
+
+  const handleClear = () => {
+    if (!window.confirm("Clear all recorded usage?")) return;
+    clearLedger();
+    setLedger([]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-slate-950 border border-slate-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h2 className="font-semibold">Usage & cost</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="flex gap-3">
+            <TotalsCard label="Today" totals={today} />
+            <TotalsCard label="This session" totals={session} />
+            <TotalsCard label="All time" totals={allTime} />
+          </div>
+
+          <div className="max-h-64 overflow-y-auto border border-slate-800 rounded-lg">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-900 text-slate-400">
+                <tr>
+                  <th className="text-left font-medium px-3 py-2">Model</th>
+                  <th className="text-right font-medium px-3 py-2">Calls</th>
+                  <th className="text-right font-medium px-3 py-2">Tokens</th>
+                  <th className="text-right font-medium px-3 py-2">Avg latency</th>
+                  <th className="text-right font-medium px-3 py-2">Est. cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {byModel.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-4 text-center text-slate-500">No usage recorded yet.</td>
+                  </tr>
+                )}
+                {byModel.map(row => (
+                  <tr key={row.model} className="border-t border-slate-800 text-slate-300">
+                    <td className="px-3 py-2">{getModel(row.model)?.label || row.model}</td>
+                    <td className="px-3 py-2 text-right">{row.calls}</td>
+                    <td className="px-3 py-2 text-right">{row.totalTokens.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-right">{formatLatency(row.avgLatencyMs)}</td>
+                    <td className="px-3 py-2 text-right">{formatCost(row.estimatedCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">Daily limit (USD)</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                placeholder="No limit"
+                value={budget.dailyLimitUsd ?? ''}
+                onChange={(e) => setLimit('dailyLimitUsd', e.target.value)}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">Session limit (USD)</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                placeholder="No limit"
+                value={budget.sessionLimitUsd ?? ''}
+                onChange={(e) => setLimit('sessionLimitUsd', e.target.value)}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1">When exceeded</span>
+              <select
+                value={budget.mode}
+                onChange={(e) => setBudget(prev => ({ ...prev, mode: e.target.value as UsageBudget['mode'] }))}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100"
+              >
+                <option value="warn">Ask before running</option>
+                <option value="block">Block the call</option>
+              </select>
+            </label>
+          </div>
+          <p className="text-[11px] text-slate-500">
+            Costs are estimates from list prices. Limits are checked before image and video calls.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between p-4 border-t border-slate-800">
+          <button onClick={handleClear} className="text-xs text-slate-500 hover:text-red-400">
+            Clear history
+          </button>
+          <button
+            onClick={() => { saveBudget(budget); onClose(); }}
+            className="px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { Film, Loader2, RotateCcw, X } from 'lucide-react';
+import { VideoJob } from '../types';
+import { EXPECTED_VIDEO_RENDER_MS } from '../services/videoJobService';
+import { formatDuration } from '../services/audioService';
+
+interface VideoJobCardProps {
+  job: VideoJob;
+  onCancel?: (job: VideoJob) => void;
+  onRetry?: (job: VideoJob) => void;
+}
+
+const STATUS_LABELS: Record<VideoJob['status'], string> = {
+  running: 'Rendering video',
+  succeeded: 'Video ready',
+  failed: 'Video generation failed',
+  cancelled: 'Video generation cancelled',
+};
+
+export const VideoJobCard: React.FC<VideoJobCardProps> = ({ job, onCancel, onRetry }) => {
+  const [now, setNow] = useState(Date.now());
+  const isRunning = job.status === 'running';
+
+  // Tick the elapsed time while rendering
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  const elapsed = (isRunning ? now : job.updatedAt) - job.createdAt;
+  // Veo reports no progress, so this is paced by a typical render time and never reaches 100%
+  const progress = Math.min(elapsed / EXPECTED_VIDEO_RENDER_MS, 0.95);
+
+  return (
+    <div className="mt-3 w-full min-w-[280px] bg-slate-900/50 p-3 rounded-lg border border-slate-700">
+      <div className="flex items-center gap-2 text-sm">
+        {isRunning ? <Loader2 size={16} className="animate-spin text-indigo-400" /> : <Film size={16} className="text-slate-400" />}
+        <span className="font-medium">{STATUS_LABELS[job.status]}</span>
+        <span className="ml-auto text-xs font-mono text-slate-400">{formatDuration(elapsed / 1000)}</span>
+      </div>
+
+      {isRunning && (
+        <div className="mt-2 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+          <div className="h-full bg-indigo-500 transition-all duration-1000" style={{ width: `${progress * 100}%` }} />
+        </div>
+      )}
+
+      {job.error && <p className="mt-2 text-xs text-red-300">{job.error}</p>}
+
+      <div className="mt-2 flex items-center gap-3 text-xs">
+        <span className="text-slate-500 font-mono">{job.model}</span>
+        {isRunning && onCancel && (
+          <button onClick={() => onCancel(job)} className="ml-auto flex items-center gap-1 text-slate-400 hover:text-red-300">
+            <X size={12} /> Cancel
+          </button>
+        )}
+        {!isRunning && onRetry && (
+          <button onClick={() => onRetry(job)} className="ml-auto flex items-center gap-1 text-indigo-300 hover:text-indigo-200">
+            <RotateCcw size={12} /> Retry
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Square } from 'lucide-react';
+import { MAX_RECORDING_MS, isVoiceInputSupported, pickRecordingMimeType } from '../services/voiceService';
+import { formatDuration } from '../services/audioService';
+
+interface VoiceInputButtonProps {
+  pushToTalk: boolean;
+  disabled?: boolean;
+  onRecorded: (recording: Blob) => void;
+  onError: (message: string) => void;
+}
+
+// Records from the microphone: click to start/stop, or hold while talking in push-to-talk mode
+export const VoiceInputButton: React.FC<VoiceInputButtonProps> = ({ pushToTalk, disabled, onRecorded, onError }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [startedAt, setStartedAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  // Push-to-talk released before the microphone opened
+  const releasedRef = useRef(false);
+  // The recorder outlives the render that started it, so it calls the latest handler
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() - startedAt >= MAX_RECORDING_MS) stop();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [isRecording, startedAt]);
+
+  // Release the microphone if the composer goes away mid-recording
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.ondataavailable = null;
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+  }, []);
+
+  const start = async () => {
+    if (recorderRef.current) return;
+    releasedRef.current = false;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      onError("Microphone access was denied. Allow it in your browser to use voice input.");
+      return;
+    }
+
+    const mimeType = pickRecordingMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      setIsRecording(false);
+      const recording = new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' });
+      if (recording.size > 0) onRecordedRef.current(recording);
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setStartedAt(Date.now());
+    setNow(Date.now());
+    setIsRecording(true);
+    if (releasedRef.current) stop();
+  };
+
+  const stop = () => {
+    releasedRef.current = true;
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  if (!isVoiceInputSupported()) return null;
+
+  const handlers = pushToTalk
+    ? { onPointerDown: start, onPointerUp: stop, onPointerLeave: stop }
+    : { onClick: () => (isRecording ? stop() : start()) };
+
+  return (
+    <button
+      type="button"
+      disabled={disabled && !isRecording}
+      title={pushToTalk ? "Hold to talk" : isRecording ? "Stop recording" : "Record a voice prompt"}
+      className={`flex items-center gap-1.5 p-3 rounded-lg transition-colors mb-0.5 select-none touch-none disabled:opacity-50 ${
+        isRecording ? 'text-red-300 bg-red-950/50' : 'text-slate-400 hover:text-slate-200'
+      }`}
+      {...handlers}
+    >
+      {isRecording && !pushToTalk ? <Square size={18} /> : <Mic size={18} className={isRecording ? 'animate-pulse' : ''} />}
+      {isRecording && <span className="text-xs font-mono">{formatDuration((now - startedAt) / 1000)}</span>}
+    </button>
+  );
+};
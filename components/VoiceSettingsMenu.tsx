@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { ChevronUp } from 'lucide-react';
+import { VoicePreferences } from '../services/voiceService';
+
+interface VoiceSettingsMenuProps {
+  preferences: VoicePreferences;
+  onChange: (preferences: VoicePreferences) => void;
+}
+
+const TOGGLES: Array<{ key: 'pushToTalk' | 'autoSubmit' | 'replyByVoice'; label: string; description: string }> = [
+  { key: 'pushToTalk', label: 'Push to talk', description: 'Hold the mic button while speaking' },
+  { key: 'autoSubmit', label: 'Send immediately', description: 'Skip the transcript preview' },
+  { key: 'replyByVoice', label: 'Reply by voice', description: 'Read text answers aloud' },
+];
+
+export const VoiceSettingsMenu: React.FC<VoiceSettingsMenuProps> = ({ preferences, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative mb-0.5 -ml-2">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        title="Voice settings"
+        className="py-3 px-1 text-slate-500 hover:text-slate-200 transition-colors"
+      >
+        <ChevronUp size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 bottom-full mb-2 z-20 w-64 bg-slate-950 border border-slate-700 rounded-lg shadow-xl p-2 text-sm">
+          <div className="px-1 pb-2 text-xs text-slate-400">Send recordings as</div>
+          <div className="flex gap-1 px-1 pb-2">
+            {(['transcript', 'audio'] as const).map(sendAs => (
+              <button
+                key={sendAs}
+                type="button"
+                onClick={() => onChange({ ...preferences, sendAs })}
+                className={`flex-1 py-1 rounded-md text-xs border ${
+                  preferences.sendAs === sendAs
+                    ? 'border-indigo-500 bg-indigo-950/60 text-indigo-200'
+                    : 'border-slate-700 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {sendAs === 'transcript' ? 'Transcript' : 'Audio'}
+              </button>
+            ))}
+          </div>
+          {TOGGLES.map(({ key, label, description }) => (
+            <label key={key} className="flex items-start gap-2 px-1 py-1.5 rounded hover:bg-slate-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={preferences[key]}
+                onChange={(e) => onChange({ ...preferences, [key]: e.target.checked })}
+                className="mt-0.5 accent-indigo-500"
+              />
+              <span>
+                <span className="block text-slate-200">{label}</span>
+                <span className="block text-[11px] text-slate-500">{description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
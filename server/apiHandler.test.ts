@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createApiMiddleware } from './apiHandler';
+import { toVideosOperation } from '../services/transport';
+import { ORCHESTRATOR_MODEL, getModel, registerModel, unregisterModel } from '../services/modelRegistry';
+import { createFakeTransport, textResponse } from '../test/fakeTransport';
+
+// Just enough of ServerResponse for the middleware, collecting what it writes
+const createResponse = () => {
+  const res = Object.assign(new EventEmitter(), {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: '',
+    writableEnded: false,
+    setHeader(name: string, value: string) {
+      res.headers[name.toLowerCase()] = value;
+    },
+    write(chunk: string) {
+      res.body += chunk;
+      return true;
+    },
+    end(chunk?: string | Buffer) {
+      if (chunk) res.body += chunk.toString();
+      res.writableEnded = true;
+    },
+  });
+  return res;
+};
+
+const request = async (middleware: ReturnType<typeof createApiMiddleware>, url: string, body?: unknown, method = 'POST') => {
+  const payload = body === undefined ? [] : [Buffer.isBuffer(body) ? body : Buffer.from(JSON.stringify(body))];
+  const req = Object.assign(Readable.from(payload), { method, url }) as unknown as IncomingMessage;
+  const res = createResponse();
+  const next = vi.fn();
+  await middleware(req, res as unknown as ServerResponse, next);
+  return { res, next, json: () => JSON.parse(res.body) };
+};
+
+const contents = [{ role: 'user', parts: [{ text: 'hello' }] }];
+
+describe('createApiMiddleware', () => {
+  it('leaves requests outside the API to the next handler', async () => {
+    const { next, res } = await request(createApiMiddleware({ gemini: createFakeTransport() }), '/index.html', undefined, 'GET');
+
+    expect(next).toHaveBeenCalled();
+    expect(res.writableEnded).toBe(false);
+  });
+
+  it('only accepts models registered for the task behind each operation', async () => {
+    const middleware = createApiMiddleware({ gemini: createFakeTransport() });
+
+    const text = await request(middleware, '/api/text', { model: 'gemini-3-flash-preview', contents });
+    expect(text.res.statusCode).toBe(200);
+    expect(text.json().candidates[0].content.parts[0].text).toContain('hello');
+
+    const wrongTask = await request(middleware, '/api/text', { model: 'gemini-2.5-flash-image', contents });
+    expect(wrongTask.res.statusCode).toBe(400);
+    expect(wrongTask.json().error).toMatch(/not allowed for text/);
+
+    const unknown = await request(middleware, '/api/image', { model: 'some-other-model', contents });
+    expect(unknown.res.statusCode).toBe(400);
+
+    const orchestrate = await request(middleware, '/api/orchestrate', { model: 'gemini-3-pro-preview', contents });
+    expect(orchestrate.res.statusCode).toBe(400);
+    expect((await request(middleware, '/api/orchestrate', { model: ORCHESTRATOR_MODEL, contents })).res.statusCode).toBe(200);
+  });
+
+  it('rejects bodies over the size limit with 413', async () => {
+    const generateContent = vi.fn();
+    const middleware = createApiMiddleware({ gemini: createFakeTransport(undefined, { generateContent }) });
+
+    const { res, json } = await request(middleware, '/api/text', Buffer.alloc(25 * 1024 * 1024 + 1, ' '));
+    expect(res.statusCode).toBe(413);
+    expect(json().error).toMatch(/too large/);
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed JSON and unknown endpoints', async () => {
+    const middleware = createApiMiddleware({ gemini: createFakeTransport() });
+
+    expect((await request(middleware, '/api/text', Buffer.from('{nope'))).res.statusCode).toBe(400);
+    expect((await request(middleware, '/api/nowhere', {})).res.statusCode).toBe(404);
+    expect((await request(middleware, '/api/text', undefined, 'PUT')).res.statusCode).toBe(405);
+  });
+
+  it('streams newline-delimited JSON and reports a mid-stream failure as a final error line', async () => {
+    const middleware = createApiMiddleware({
+      gemini: createFakeTransport(undefined, {
+        async generateContentStream() {
+          return (async function* () {
+            yield textResponse('Hello ');
+            yield textResponse('there');
+            throw Object.assign(new Error('Quota exceeded'), { status: 429 });
+          })();
+        },
+      }),
+    });
+
+    const { res } = await request(middleware, '/api/text/stream', { model: 'gemini-3-flash-preview', contents });
+    const lines = res.body.trim().split('\n').map(line => JSON.parse(line));
+
+    expect(res.headers['content-type']).toBe('application/x-ndjson');
+    expect(lines).toHaveLength(3);
+    expect(lines[1].candidates[0].content.parts[0].text).toBe('there');
+    expect(lines[2]).toEqual({ error: 'Quota exceeded', status: 429 });
+  });
+
+  it('runs each model on the transport of its registry provider', async () => {
+    registerModel({ ...getModel('gemini-3-flash-preview')!, id: 'local-echo', provider: 'local', isDefault: false });
+    registerModel({ ...getModel('veo-3.1-fast-generate-preview')!, id: 'local-video', provider: 'local', isDefault: false });
+    registerModel({ ...getModel('gemini-3-flash-preview')!, id: 'unplugged', provider: 'nowhere', isDefault: false });
+    const local = createFakeTransport(undefined, {
+      generateContent: vi.fn(async () => textResponse('from local')),
+      getVideosOperation: vi.fn(async (name: string) => toVideosOperation({ name, done: false })),
+    });
+    const middleware = createApiMiddleware({ gemini: createFakeTransport(), local });
+
+    try {
+      const text = await request(middleware, '/api/text', { model: 'local-echo', contents });
+      expect(text.json().candidates[0].content.parts[0].text).toBe('from local');
+
+      const poll = await request(middleware, '/api/video/operation', { model: 'local-video', name: 'operations/1' });
+      expect(poll.res.statusCode).toBe(200);
+      expect(local.getVideosOperation).toHaveBeenCalledWith('operations/1', 'local-video', expect.anything());
+
+      const missing = await request(middleware, '/api/text', { model: 'unplugged', contents });
+      expect(missing.res.statusCode).toBe(501);
+      expect(missing.json().error).toMatch(/provider "nowhere"/);
+      expect((await request(middleware, '/api/video/operation', { model: 'local-echo', name: 'operations/1' })).res.statusCode).toBe(400);
+    } finally {
+      ['local-echo', 'local-video', 'unplugged'].forEach(unregisterModel);
+    }
+  });
+});
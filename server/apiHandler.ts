@@ -0,0 +1,160 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import { TaskType } from "../types";
+import { API_BASE_PATH, ContentOperation, GeminiTransport } from "../services/transport";
+import { ORCHESTRATOR_MODEL, getModel } from "../services/modelRegistry";
+import { ModelDefinition } from "../types";
+
+/**
+ * HTTP API in front of one GeminiTransport per provider. Each operation only
+ * accepts models registered for its task types, so the proxy can't be used as
+ * an open relay, and the model's registry entry decides which transport runs it.
+ */
+
+type Middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+// Keyed by ModelDefinition.provider, e.g. { gemini: ..., stub: ... }
+export type ProviderTransports = Record<string, GeminiTransport>;
+
+// Inline attachments make requests large, but keep a ceiling
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+const OPERATION_TASKS: Record<ContentOperation | 'video', TaskType[]> = {
+  orchestrate: [],
+  text: [TaskType.TEXT, TaskType.SEARCH],
+  image: [TaskType.IMAGE],
+  tts: [TaskType.AUDIO],
+  video: [TaskType.VIDEO],
+};
+
+class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readJson = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ApiError(413, "Request body too large."));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new ApiError(400, "Invalid JSON body."));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const assertModelAllowed = (operation: ContentOperation | 'video', model: unknown): ModelDefinition => {
+  const definition = typeof model === 'string' ? getModel(model) : undefined;
+  const allowed = operation === 'orchestrate'
+    ? model === ORCHESTRATOR_MODEL
+    : !!definition?.taskTypes.some(t => OPERATION_TASKS[operation].includes(t));
+  if (!allowed || !definition) {
+    throw new ApiError(400, `Model "${model}" is not allowed for ${operation}.`);
+  }
+  return definition;
+};
+
+export const createApiMiddleware = (transports: ProviderTransports): Middleware => async (req, res, next) => {
+  if (!req.url?.startsWith(`${API_BASE_PATH}/`)) return next();
+
+  const url = new URL(req.url, 'http://localhost');
+  const route = url.pathname.slice(API_BASE_PATH.length);
+
+  // Stop upstream work when the browser goes away (e.g. the user pressed Cancel)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  const signal = controller.signal;
+
+  const transportFor = (definition: ModelDefinition) => {
+    const transport = transports[definition.provider];
+    if (!transport) throw new ApiError(501, `No backend is configured for provider "${definition.provider}".`);
+    return transport;
+  };
+
+  try {
+    if (req.method === 'GET' && route === '/video/file') {
+      const uri = url.searchParams.get('uri');
+      if (!uri) throw new ApiError(400, "Missing video uri.");
+      const model = assertModelAllowed('video', url.searchParams.get('model'));
+      const blob = await transportFor(model).downloadVideo(uri, model.id, signal);
+      res.setHeader('Content-Type', blob.type || 'video/mp4');
+      res.end(Buffer.from(await blob.arrayBuffer()));
+      return;
+    }
+
+    if (req.method !== 'POST') throw new ApiError(405, "Method not allowed.");
+    const body = await readJson(req);
+
+    switch (route) {
+      case '/orchestrate':
+      case '/text':
+      case '/image':
+      case '/tts': {
+        const operation = route.slice(1) as ContentOperation;
+        const model = assertModelAllowed(operation, body.model);
+        sendJson(res, 200, await transportFor(model).generateContent(operation, body, signal));
+        return;
+      }
+
+      case '/text/stream': {
+        const model = assertModelAllowed('text', body.model);
+        const stream = await transportFor(model).generateContentStream(body, signal);
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/x-ndjson');
+        try {
+          for await (const chunk of stream) {
+            res.write(`${JSON.stringify(chunk)}\n`);
+          }
+        } catch (err: any) {
+          // Headers are already sent, so report the failure in-band
+          if (!signal.aborted) res.write(`${JSON.stringify({ error: err.message, status: err.status })}\n`);
+        }
+        res.end();
+        return;
+      }
+
+      case '/video': {
+        const model = assertModelAllowed('video', body.model);
+        sendJson(res, 200, await transportFor(model).generateVideos(body, signal));
+        return;
+      }
+
+      case '/video/operation': {
+        if (typeof body.name !== 'string') throw new ApiError(400, "Missing operation name.");
+        const model = assertModelAllowed('video', body.model);
+        sendJson(res, 200, await transportFor(model).getVideosOperation(body.name, model.id, signal));
+        return;
+      }
+
+      default:
+        throw new ApiError(404, `Unknown endpoint ${route}.`);
+    }
+  } catch (err: any) {
+    if (signal.aborted) return;
+    const status = typeof err?.status === 'number' && err.status >= 400 ? err.status : 500;
+    sendJson(res, status, { error: err?.message || "Internal server error." });
+  }
+};
@@ -0,0 +1,44 @@
+import { GoogleGenAI, GenerateVideosOperation } from "@google/genai";
+import { GeminiTransport } from "../services/transport";
+
+// Generated videos are only ever fetched from the Gemini API host, never an arbitrary URL
+const VIDEO_HOST = 'generativelanguage.googleapis.com';
+
+/**
+ * Server-side transport backed by the real SDK. This is the only place the
+ * API key is used.
+ */
+export const createDirectTransport = (apiKey: string): GeminiTransport => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    generateContent: (_operation, params, signal) =>
+      ai.models.generateContent({ ...params, config: { ...params.config, abortSignal: signal } }),
+
+    generateContentStream: (params, signal) =>
+      ai.models.generateContentStream({ ...params, config: { ...params.config, abortSignal: signal } }),
+
+    generateVideos: (params, signal) =>
+      ai.models.generateVideos({ ...params, config: { ...params.config, abortSignal: signal } }),
+
+    getVideosOperation: (name, _model, signal) => {
+      const operation = new GenerateVideosOperation();
+      operation.name = name;
+      return ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } });
+    },
+
+    async downloadVideo(uri, _model, signal) {
+      const url = new URL(uri);
+      if (url.protocol !== 'https:' || url.hostname !== VIDEO_HOST) {
+        throw Object.assign(new Error("Refusing to download video from an unexpected host."), { status: 400 });
+      }
+      url.searchParams.set('key', apiKey);
+
+      const res = await fetch(url, { signal });
+      if (!res.ok) {
+        throw Object.assign(new Error("Failed to download generated video."), { status: res.status });
+      }
+      return res.blob();
+    },
+  };
+};
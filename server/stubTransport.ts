@@ -0,0 +1,106 @@
+import { ContentListUnion } from "@google/genai";
+import { GeminiTransport, toContentResponse, toVideosOperation } from "../services/transport";
+import { fallbackRoute } from "../services/routingService";
+
+/**
+ * Offline stand-in for the Gemini API. Returns deterministic canned responses
+ * so the full app can be exercised without a key or network access.
+ */
+
+// 1x1 transparent PNG
+const STUB_PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const STUB_VIDEO_URI = 'stub://video/1';
+
+// One second of a single black 16x16 frame: H.264 constrained baseline, stored uncompressed (I_PCM)
+const STUB_MP4_BASE64 = [
+  'AAAAIGZ0eXBpc29tAAACAGlzb21pc28yYXZjMW1wNDEAAAJYbW9vdgAAAGxtdmhkAAAAAAAAAAAAAAAAAAAD6AAAA+gAAQAAAQAA',
+  'AAAAAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAgAA',
+  'AeR0cmFrAAAAXHRraGQAAAADAAAAAAAAAAAAAAABAAAAAAAAA+gAAAAAAAAAAAAAAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAABAAAA',
+  'AAAAAAAAAAAAAABAAAAAABAAAAAQAAAAAAGAbWRpYQAAACBtZGhkAAAAAAAAAAAAAAAAAAAD6AAAA+hVxAAAAAAALWhkbHIAAAAA',
+  'AAAAAHZpZGUAAAAAAAAAAAAAAABWaWRlb0hhbmRsZXIAAAABK21pbmYAAAAUdm1oZAAAAAEAAAAAAAAAAAAAACRkaW5mAAAAHGRy',
+  'ZWYAAAAAAAAAAQAAAAx1cmwgAAAAAQAAAOtzdGJsAAAAg3N0c2QAAAAAAAAAAQAAAHNhdmMxAAAAAAAAAAEAAAAAAAAAAAAAAAAA',
+  'AAAAABAAEABIAAAASAAAAAAAAAABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAGP//AAAAHWF2Y0MBQsAK/+EABmdC',
+  'wArd5AEABGjOOIAAAAAYc3R0cwAAAAAAAAABAAAAAQAAA+gAAAAcc3RzYwAAAAAAAAABAAAAAQAAAAEAAAABAAAAGHN0c3oAAAAA',
+  'AAAAAAAAAAEAAAGKAAAAFHN0Y28AAAAAAAAAAQAAAoAAAAGSbWRhdAAAAYZliISGgBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQ',
+  'EBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQ',
+  'EBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQ',
+  'EBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQ',
+  'EBAQEBCAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICA',
+  'gICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgIA=',
+].join('');
+
+// Last user text in a request, whatever shape `contents` takes
+const lastUserText = (contents: ContentListUnion): string => {
+  if (typeof contents === 'string') return contents;
+  const list = Array.isArray(contents) ? contents : [contents];
+  for (let i = list.length - 1; i >= 0; i--) {
+    const item: any = list[i];
+    if (typeof item === 'string') return item;
+    if (item?.text) return item.text;
+    const text = item?.parts?.map((p: any) => p.text).filter(Boolean).join('\n');
+    if (text) return text;
+  }
+  return '';
+};
+
+// Half a second of 24 kHz mono 16-bit PCM (a quiet 440 Hz tone)
+const stubPcmBase64 = () => {
+  const samples = new Int16Array(12000);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / 24000) * 3000);
+  }
+  return Buffer.from(samples.buffer).toString('base64');
+};
+
+const textResponse = (text: string) => toContentResponse({
+  candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }],
+});
+
+const inlineResponse = (mimeType: string, data: string) => toContentResponse({
+  candidates: [{ content: { role: 'model', parts: [{ inlineData: { mimeType, data } }] }, finishReason: 'STOP' }],
+});
+
+export const createStubTransport = (): GeminiTransport => ({
+  async generateContent(operation, params) {
+    const prompt = lastUserText(params.contents);
+    switch (operation) {
+      case 'orchestrate': {
+        // Reuse the keyword router so stub routing behaves predictably
+        const { isFallback, fallbackReason, ...decision } = fallbackRoute(prompt.split('Latest request:\n').pop() || prompt, '');
+        return textResponse(JSON.stringify({ ...decision, reasoning: 'Stub router decision.' }));
+      }
+      case 'image':
+        return inlineResponse('image/png', STUB_PNG_BASE64);
+      case 'tts':
+        return inlineResponse('audio/L16;codec=pcm;rate=24000', stubPcmBase64());
+      default:
+        return textResponse(`**Stub response** from \`${params.model}\` for: ${prompt}`);
+    }
+  },
+
+  async generateContentStream(params) {
+    const words = `Streaming stub response from ${params.model}. You asked: ${lastUserText(params.contents)}`.split(' ');
+    return (async function* () {
+      for (const word of words) {
+        yield textResponse(`${word} `);
+      }
+    })();
+  },
+
+  async generateVideos() {
+    return toVideosOperation({ name: 'operations/stub-video', done: false });
+  },
+
+  async getVideosOperation(name) {
+    return toVideosOperation({
+      name,
+      done: true,
+      response: { generatedVideos: [{ video: { uri: STUB_VIDEO_URI } }] },
+    });
+  },
+
+  async downloadVideo() {
+    return new Blob([Buffer.from(STUB_MP4_BASE64, 'base64')], { type: 'video/mp4' });
+  },
+});
@@ -0,0 +1,33 @@
+import type { Plugin } from "vite";
+import { createApiMiddleware } from "./apiHandler";
+import { createDirectTransport } from "./directTransport";
+import { createStubTransport } from "./stubTransport";
+
+interface GeminiProxyOptions {
+  apiKey?: string;
+  stub?: boolean; // Serve canned responses instead of calling Gemini
+}
+
+// Mounts the API proxy on the Vite dev and preview servers
+export const geminiProxy = ({ apiKey, stub }: GeminiProxyOptions): Plugin => {
+  const useStub = stub || !apiKey;
+  if (useStub && !stub) {
+    console.warn('[nexus] GEMINI_API_KEY is not set - serving stub responses.');
+  }
+  const stubTransport = createStubTransport();
+  // Registry entries with provider 'stub' always get canned responses, e.g. a local stand-in model
+  const middleware = createApiMiddleware({
+    gemini: useStub ? stubTransport : createDirectTransport(apiKey!),
+    stub: stubTransport,
+  });
+
+  return {
+    name: 'nexus-gemini-proxy',
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    },
+  };
+};
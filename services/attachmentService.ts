@@ -0,0 +1,66 @@
+import { Part } from "@google/genai";
+import { Attachment, AttachmentKind } from "../types";
+
+// Inline request payloads are capped by the API, so keep each file well below that
+export const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+export const ACCEPTED_ATTACHMENT_TYPES = 'image/*,audio/*,video/*,application/pdf,text/*';
+
+// Prompt sent when files go out without a message
+export const ATTACHMENT_ONLY_PROMPT = "Respond to the attached files.";
+
+const getKind = (mimeType: string): AttachmentKind => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  return 'document';
+};
+
+// Reads a File (from picker, drop or paste) into an inline attachment
+export const readAttachment = (file: File): Promise<Attachment> => {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return Promise.reject(new Error(`"${file.name}" is too large (max ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB).`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      const mimeType = file.type || 'application/octet-stream';
+      resolve({
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: file.name || `pasted-${getKind(mimeType)}`,
+        mimeType,
+        kind: getKind(mimeType),
+        size: file.size,
+        data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+export const toDataUrl = (attachment: Attachment) => `data:${attachment.mimeType};base64,${attachment.data}`;
+
+// Turns a generated image (stored on messages as a data URL) back into an attachment
+export const fromDataUrl = (dataUrl: string, name: string): Attachment | null => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match) return null;
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    mimeType: match[1],
+    kind: getKind(match[1]),
+    size: Math.floor(match[2].length * 0.75),
+    data: match[2],
+  };
+};
+
+export const toInlinePart = (attachment: Attachment): Part => ({
+  inlineData: { mimeType: attachment.mimeType, data: attachment.data },
+});
+
+// Short description for the orchestrator, which only needs to know what was attached
+export const describeAttachments = (attachments: Attachment[]) =>
+  attachments.map(a => `- ${a.name} (${a.kind}, ${a.mimeType})`).join('\n');
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { formatDuration, isRawPcm, parsePcmFormat, pcmToWav } from './audioService';
+
+describe('parsePcmFormat', () => {
+  it('reads the rate and channels from the mimeType', () => {
+    expect(parsePcmFormat('audio/L16;codec=pcm;rate=16000;channels=2')).toEqual({
+      sampleRate: 16000,
+      channels: 2,
+      bitsPerSample: 16,
+    });
+  });
+
+  it('falls back to 24 kHz mono', () => {
+    expect(parsePcmFormat(undefined)).toEqual({ sampleRate: 24000, channels: 1, bitsPerSample: 16 });
+    expect(parsePcmFormat('audio/pcm;rate=abc')).toMatchObject({ sampleRate: 24000 });
+  });
+
+  it('only treats PCM mimeTypes as raw', () => {
+    expect(isRawPcm('audio/L16;rate=24000')).toBe(true);
+    expect(isRawPcm(undefined)).toBe(true);
+    expect(isRawPcm('audio/wav')).toBe(false);
+  });
+});
+
+describe('pcmToWav', () => {
+  const readString = (bytes: Uint8Array, offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+  it('writes a RIFF header describing the samples', () => {
+    const wav = pcmToWav(new Uint8Array(8), { sampleRate: 16000, channels: 2, bitsPerSample: 16 });
+    const view = new DataView(wav.buffer);
+
+    expect(wav.byteLength).toBe(52);
+    expect(readString(wav, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(44);
+    expect(readString(wav, 8, 8)).toBe('WAVEfmt ');
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(28, true)).toBe(64000);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(readString(wav, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(8);
+  });
+
+  it('drops a trailing partial frame', () => {
+    const wav = pcmToWav(new Uint8Array([1, 2, 3]), { sampleRate: 24000, channels: 1, bitsPerSample: 16 });
+    expect(new DataView(wav.buffer).getUint32(40, true)).toBe(2);
+    expect(Array.from(wav.subarray(44))).toEqual([1, 2]);
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats minutes and seconds', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(65.4)).toBe('1:05');
+    expect(formatDuration(NaN)).toBe('0:00');
+  });
+});
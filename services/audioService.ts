@@ -0,0 +1,108 @@
+/**
+ * AUDIO HELPERS
+ * Gemini TTS returns raw PCM described by its mimeType
+ * (e.g. "audio/L16;codec=pcm;rate=24000"). These helpers read that format,
+ * wrap the samples in a WAV container and summarize them for a waveform.
+ */
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+// What the TTS models return when the mimeType omits a parameter
+export const DEFAULT_PCM_FORMAT: PcmFormat = { sampleRate: 24000, channels: 1, bitsPerSample: 16 };
+
+// Older messages were saved without a mimeType and are always raw PCM
+export const isRawPcm = (mimeType?: string) => !mimeType || /^audio\/(L16|pcm)\b/i.test(mimeType);
+
+export const parsePcmFormat = (mimeType?: string): PcmFormat => {
+  const params = new Map<string, string>();
+  (mimeType || '').split(';').slice(1).forEach(param => {
+    const [key, value] = param.split('=').map(s => s.trim().toLowerCase());
+    if (key && value) params.set(key, value);
+  });
+
+  const number = (key: string, fallback: number) => {
+    const value = Number(params.get(key));
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    sampleRate: number('rate', DEFAULT_PCM_FORMAT.sampleRate),
+    channels: number('channels', DEFAULT_PCM_FORMAT.channels),
+    bitsPerSample: DEFAULT_PCM_FORMAT.bitsPerSample,
+  };
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Prepends a 44-byte RIFF/WAVE header. Samples are kept as-is (little-endian,
+// which is what the API actually sends despite the L16 label).
+export const pcmToWav = (pcm: Uint8Array, format: PcmFormat): Uint8Array => {
+  const blockAlign = format.channels * (format.bitsPerSample / 8);
+  // Drop a trailing partial frame so the data chunk stays aligned
+  const dataLength = pcm.byteLength - (pcm.byteLength % blockAlign);
+
+  const wav = new Uint8Array(44 + dataLength);
+  const view = new DataView(wav.buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, format.channels, true);
+  view.setUint32(24, format.sampleRate, true);
+  view.setUint32(28, format.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, format.bitsPerSample, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+  wav.set(pcm.subarray(0, dataLength), 44);
+  return wav;
+};
+
+// Playable/downloadable file for a TTS result; container formats pass through
+export const toAudioBlob = (base64: string, mimeType?: string): Blob => {
+  const bytes = base64ToBytes(base64);
+  return isRawPcm(mimeType)
+    ? new Blob([pcmToWav(bytes, parsePcmFormat(mimeType)).buffer as ArrayBuffer], { type: 'audio/wav' })
+    : new Blob([bytes.buffer as ArrayBuffer], { type: mimeType });
+};
+
+// Peak amplitude (0-1) of each of `bars` equal slices of the first channel
+export const getWaveformPeaks = (buffer: AudioBuffer, bars: number): number[] => {
+  const samples = buffer.getChannelData(0);
+  const sliceSize = Math.max(1, Math.floor(samples.length / bars));
+  const peaks: number[] = [];
+  for (let bar = 0; bar < bars; bar++) {
+    let peak = 0;
+    const end = Math.min((bar + 1) * sliceSize, samples.length);
+    for (let i = bar * sliceSize; i < end; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks.push(peak);
+  }
+  // Normalize so quiet speech still draws a visible waveform
+  const max = Math.max(...peaks, 0.01);
+  return peaks.map(p => p / max);
+};
+
+export const formatDuration = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return '0:00';
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { extractGrounding, getSourceDomain, insertCitationMarkers } from './citationService';
+
+const text = 'Tides are caused by the moon. The sun also contributes. Café tides vary.';
+
+describe('extractGrounding', () => {
+  it('deduplicates sources and maps supports to citations', () => {
+    const { sources, citations, queries } = extractGrounding({
+      groundingChunks: [
+        { web: { uri: 'https://a.example/1', title: 'noaa.gov' } },
+        { web: { uri: 'https://a.example/1', title: 'noaa.gov' } },
+        { web: { uri: 'https://b.example/2', title: 'nasa.gov' } },
+        { web: { title: 'No link' } },
+      ],
+      groundingSupports: [
+        { segment: { text: 'Tides are caused by the moon.' }, groundingChunkIndices: [0, 1] },
+        { segment: { text: 'The sun also contributes.' }, groundingChunkIndices: [2, 0, 3] },
+      ],
+      webSearchQueries: ['what causes tides'],
+    }, text);
+
+    expect(sources).toEqual([
+      { uri: 'https://a.example/1', title: 'noaa.gov' },
+      { uri: 'https://b.example/2', title: 'nasa.gov' },
+    ]);
+    expect(citations).toEqual([
+      { endIndex: 29, sourceIndices: [0] },
+      { endIndex: 55, sourceIndices: [0, 1] },
+    ]);
+    expect(queries).toEqual(['what causes tides']);
+  });
+
+  it('falls back to UTF-8 byte offsets when the segment text is missing', () => {
+    const { citations } = extractGrounding({
+      groundingChunks: [{ web: { uri: 'https://a.example' } }],
+      // "Café" is 5 bytes but 4 characters
+      groundingSupports: [{ segment: { endIndex: new TextEncoder().encode(text).length }, groundingChunkIndices: [0] }],
+    }, text);
+
+    expect(citations).toEqual([{ endIndex: text.length, sourceIndices: [0] }]);
+  });
+
+  it('handles missing grounding metadata', () => {
+    expect(extractGrounding(undefined, text)).toEqual({ sources: [], citations: [], queries: [] });
+  });
+});
+
+describe('insertCitationMarkers', () => {
+  it('adds numbered links after each cited segment', () => {
+    expect(insertCitationMarkers('One. Two.', [
+      { endIndex: 4, sourceIndices: [0] },
+      { endIndex: 9, sourceIndices: [0, 1] },
+    ])).toBe('One.[1](#cite-0) Two.[1](#cite-0)[2](#cite-1)');
+  });
+
+  it('leaves code blocks untouched', () => {
+    const code = '```\nx = 1\n```';
+    expect(insertCitationMarkers(code, [{ endIndex: 9, sourceIndices: [0] }])).toBe(code);
+  });
+
+  it('leaves inline code and links untouched, but marks right after them', () => {
+    const inline = 'Run `npm test` now.';
+    expect(insertCitationMarkers(inline, [{ endIndex: 8, sourceIndices: [0] }])).toBe(inline);
+    expect(insertCitationMarkers(inline, [{ endIndex: 14, sourceIndices: [0] }])).toBe('Run `npm test`[1](#cite-0) now.');
+
+    const link = 'See [the tide tables](https://noaa.gov/tides) here.';
+    expect(insertCitationMarkers(link, [{ endIndex: 10, sourceIndices: [0] }])).toBe(link);
+    expect(insertCitationMarkers(link, [{ endIndex: 30, sourceIndices: [0] }])).toBe(link);
+    expect(insertCitationMarkers(link, [{ endIndex: 45, sourceIndices: [0] }]))
+      .toBe('See [the tide tables](https://noaa.gov/tides)[1](#cite-0) here.');
+  });
+});
+
+describe('getSourceDomain', () => {
+  it('prefers a domain-like title over the redirect URI', () => {
+    expect(getSourceDomain({ title: 'www.noaa.gov', uri: 'https://vertexaisearch.cloud.google.com/x' })).toBe('noaa.gov');
+    expect(getSourceDomain({ title: 'Tides explained', uri: 'https://www.nasa.gov/tides' })).toBe('nasa.gov');
+  });
+});
@@ -0,0 +1,110 @@
+import { GroundingMetadata } from "@google/genai";
+import { Citation } from "../types";
+
+/**
+ * SEARCH CITATIONS
+ * Grounding metadata lists the retrieved chunks (often several per site) and
+ * "supports" tying segments of the answer to those chunks. Chunks are
+ * deduplicated into numbered sources and each support becomes an inline
+ * marker at the end of its segment.
+ */
+
+export interface GroundingResult {
+  sources: Array<{ title: string; uri: string }>;
+  citations: Citation[];
+  queries: string[];
+}
+
+// Segment offsets are UTF-8 byte offsets; message content is indexed by UTF-16 code units
+const byteToCharIndex = (text: string, byteIndex: number): number => {
+  const encoder = new TextEncoder();
+  let bytes = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes >= byteIndex) return i;
+    const code = text.codePointAt(i)!;
+    bytes += encoder.encode(String.fromCodePoint(code)).length;
+    if (code > 0xffff) i++;
+  }
+  return text.length;
+};
+
+// Prefers the segment's own text (robust to streamed chunking), then its byte offset
+const findSegmentEnd = (text: string, segment: { text?: string; endIndex?: number }): number | null => {
+  if (segment.text) {
+    const start = text.indexOf(segment.text);
+    if (start !== -1) return start + segment.text.length;
+  }
+  if (segment.endIndex !== undefined) return byteToCharIndex(text, segment.endIndex);
+  return null;
+};
+
+export const extractGrounding = (metadata: GroundingMetadata | undefined, text: string): GroundingResult => {
+  const sources: GroundingResult['sources'] = [];
+  const chunkToSource = new Map<number, number>();
+
+  (metadata?.groundingChunks || []).forEach((chunk, chunkIndex) => {
+    const uri = chunk.web?.uri || chunk.maps?.uri;
+    if (!uri) return;
+    let sourceIndex = sources.findIndex(s => s.uri === uri);
+    if (sourceIndex === -1) {
+      sourceIndex = sources.push({ uri, title: chunk.web?.title || chunk.maps?.title || "Source" }) - 1;
+    }
+    chunkToSource.set(chunkIndex, sourceIndex);
+  });
+
+  const byPosition = new Map<number, Set<number>>();
+  (metadata?.groundingSupports || []).forEach(support => {
+    const endIndex = support.segment ? findSegmentEnd(text, support.segment) : null;
+    const indices = (support.groundingChunkIndices || [])
+      .map(i => chunkToSource.get(i))
+      .filter((i): i is number => i !== undefined);
+    if (endIndex === null || indices.length === 0) return;
+    const existing = byPosition.get(endIndex) || new Set<number>();
+    indices.forEach(i => existing.add(i));
+    byPosition.set(endIndex, existing);
+  });
+
+  const citations = [...byPosition.entries()]
+    .map(([endIndex, indices]) => ({ endIndex, sourceIndices: [...indices].sort((a, b) => a - b) }))
+    .sort((a, b) => a.endIndex - b.endIndex);
+
+  return { sources, citations, queries: metadata?.webSearchQueries || [] };
+};
+
+export const CITATION_HREF_PREFIX = '#cite-';
+
+// Markdown a marker would break: fenced code (an unclosed fence runs to the end),
+// inline code spans, and links or images including their URL
+const UNSPLITTABLE_PATTERN = /```[\s\S]*?(?:```|$)|(`+)[^\n]*?\1|!?\[[^\]\n]*\]\([^)\n]*\)/g;
+
+const findUnsplittableSpans = (text: string): Array<[number, number]> =>
+  Array.from(text.matchAll(UNSPLITTABLE_PATTERN), m => [m.index!, m.index! + m[0].length]);
+
+/**
+ * Inserts numbered markdown links (`[1](#cite-0)`) after each cited segment;
+ * the message renderer turns these into superscript links to the source.
+ * Markers are never placed inside code or inside a markdown link.
+ */
+export const insertCitationMarkers = (text: string, citations: Citation[] = []): string => {
+  const spans = findUnsplittableSpans(text);
+  let result = text;
+  [...citations]
+    .sort((a, b) => b.endIndex - a.endIndex)
+    .forEach(({ endIndex, sourceIndices }) => {
+      if (endIndex > result.length) return;
+      if (spans.some(([start, end]) => endIndex > start && endIndex < end)) return;
+      const markers = sourceIndices.map(i => `[${i + 1}](${CITATION_HREF_PREFIX}${i})`).join('');
+      result = result.slice(0, endIndex) + markers + result.slice(endIndex);
+    });
+  return result;
+};
+
+// Grounding URIs are redirect links, so the title (usually the site's domain) is preferred
+export const getSourceDomain = (source: { title: string; uri: string }): string => {
+  if (/^[\w-]+(\.[\w-]+)+$/.test(source.title)) return source.title.replace(/^www\./, '');
+  try {
+    return new URL(source.uri).hostname.replace(/^www\./, '');
+  } catch {
+    return source.uri;
+  }
+};
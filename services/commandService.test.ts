@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { TaskType } from '../types';
+import { matchSlashCommands, parseSlashCommand } from './commandService';
+
+describe('parseSlashCommand', () => {
+  it('splits a known command off the prompt', () => {
+    const { mode, prompt } = parseSlashCommand('/image a red fox in the snow');
+
+    expect(mode?.id).toBe('image');
+    expect(mode?.routing).toEqual({ type: TaskType.IMAGE });
+    expect(prompt).toBe('a red fox in the snow');
+  });
+
+  it('ignores leading whitespace and the case of the command', () => {
+    expect(parseSlashCommand('  /SEARCH tide tables').mode?.id).toBe('search');
+    expect(parseSlashCommand('/tts').prompt).toBe('');
+  });
+
+  it('pins /pro to the reasoning model', () => {
+    expect(parseSlashCommand('/pro prove it').mode?.routing).toEqual({ type: TaskType.TEXT, model: 'gemini-3-pro-preview' });
+  });
+
+  it('leaves unknown commands and commands inside the text alone', () => {
+    expect(parseSlashCommand('/imagine a castle')).toEqual({ mode: null, prompt: '/imagine a castle' });
+    expect(parseSlashCommand('/unknown do it')).toEqual({ mode: null, prompt: '/unknown do it' });
+    expect(parseSlashCommand('draw /image later')).toEqual({ mode: null, prompt: 'draw /image later' });
+  });
+});
+
+describe('matchSlashCommands', () => {
+  it('lists commands for a partially typed command', () => {
+    expect(matchSlashCommands('/').map(m => m.command)).toEqual(['/text', '/pro', '/search', '/image', '/video', '/tts']);
+    expect(matchSlashCommands('/T').map(m => m.command)).toEqual(['/text', '/tts']);
+  });
+
+  it('stops suggesting once the command is followed by text', () => {
+    expect(matchSlashCommands('/image ')).toEqual([]);
+    expect(matchSlashCommands('hello /im')).toEqual([]);
+  });
+});
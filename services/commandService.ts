@@ -0,0 +1,50 @@
+import { RoutingOverride, TaskType } from "../types";
+import { getModelsForTask } from "./modelRegistry";
+
+// A routing choice offered in the composer, optionally reachable via a slash command
+export interface RoutingMode {
+  id: string;
+  label: string;
+  command?: string;
+  description: string;
+  routing: RoutingOverride | null; // null = let the orchestrator decide
+}
+
+export const getRoutingModes = (): RoutingMode[] => {
+  const reasoningModel = getModelsForTask(TaskType.TEXT).find(m => m.capabilities.includes('reasoning'));
+
+  return [
+    { id: 'auto', label: 'Auto', description: 'Let the orchestrator decide', routing: null },
+    { id: 'text', label: 'Text', command: '/text', description: 'Answer with text', routing: { type: TaskType.TEXT } },
+    {
+      id: 'pro',
+      label: 'Pro reasoning',
+      command: '/pro',
+      description: 'Text with the strongest reasoning model',
+      routing: { type: TaskType.TEXT, model: reasoningModel?.id },
+    },
+    { id: 'search', label: 'Search', command: '/search', description: 'Grounded answer from Google Search', routing: { type: TaskType.SEARCH } },
+    { id: 'image', label: 'Image', command: '/image', description: 'Generate an image', routing: { type: TaskType.IMAGE } },
+    { id: 'video', label: 'Video', command: '/video', description: 'Generate a video with Veo', routing: { type: TaskType.VIDEO } },
+    { id: 'tts', label: 'Speech', command: '/tts', description: 'Read the text aloud', routing: { type: TaskType.AUDIO } },
+  ];
+};
+
+/**
+ * Splits a leading slash command off the composer input.
+ * Unknown commands are left in the prompt untouched.
+ */
+export const parseSlashCommand = (input: string): { mode: RoutingMode | null; prompt: string } => {
+  const match = input.match(/^\s*(\/\w+)\b\s*/);
+  if (!match) return { mode: null, prompt: input };
+
+  const mode = getRoutingModes().find(m => m.command === match[1].toLowerCase());
+  if (!mode) return { mode: null, prompt: input };
+  return { mode, prompt: input.slice(match[0].length) };
+};
+
+// Commands matching a partially typed "/..." input, for the composer hint list
+export const matchSlashCommands = (input: string): RoutingMode[] => {
+  if (!/^\/\w*$/.test(input)) return [];
+  return getRoutingModes().filter(m => m.command?.startsWith(input.toLowerCase()));
+};
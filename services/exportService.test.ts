@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ChatSession, TaskType } from '../types';
+import { EXPORT_VERSION, downloadBlob, exportFileName, parseJsonExport, toHtml, toJsonExport, toMarkdown } from './exportService';
+
+const session: ChatSession = {
+  id: 's1',
+  name: 'Tide research',
+  createdAt: 1,
+  updatedAt: 2,
+  messages: [
+    { id: 'u1', role: 'user', content: 'Why are there tides?', timestamp: 1 },
+    {
+      id: 'a1',
+      role: 'assistant',
+      content: 'Mostly the moon.',
+      timestamp: 2,
+      taskType: TaskType.SEARCH,
+      usedModel: 'gemini-2.5-flash',
+      orchestrationData: { type: TaskType.SEARCH, reasoning: 'Needs facts', refinedPrompt: 'tides', model: 'gemini-2.5-flash' },
+      groundingUrls: [{ title: 'NOAA', uri: 'https://oceanservice.noaa.gov/tides' }],
+      isStreaming: true,
+    },
+  ],
+};
+
+describe('JSON export', () => {
+  it('round-trips a session and drops transient UI state', async () => {
+    const imported = parseJsonExport(await toJsonExport(session));
+
+    expect(imported.name).toBe('Tide research');
+    expect(imported.messages[1].orchestrationData).toEqual(session.messages[1].orchestrationData);
+    expect(imported.messages[1].groundingUrls).toEqual(session.messages[1].groundingUrls);
+    expect(imported.messages[1].isStreaming).toBeUndefined();
+  });
+
+  it('migrates a bare session without an envelope', () => {
+    const imported = parseJsonExport(JSON.stringify({ messages: session.messages }));
+
+    expect(imported.name).toBe('Imported chat');
+    expect(imported.messages).toHaveLength(2);
+  });
+
+  it('rejects exports from a newer version and unrelated files', () => {
+    const newer = JSON.stringify({ kind: 'nexus-conversation', version: EXPORT_VERSION + 1, session });
+
+    expect(() => parseJsonExport(newer)).toThrow(/newer version/);
+    expect(() => parseJsonExport('{"hello": 1}')).toThrow(/isn't a conversation export/);
+    expect(() => parseJsonExport('not json')).toThrow(/valid JSON/);
+  });
+});
+
+describe('untrusted exports', () => {
+  const crafted = JSON.stringify({
+    kind: 'nexus-conversation',
+    version: EXPORT_VERSION,
+    session: {
+      name: 'Shared',
+      messages: [{
+        id: 'a1',
+        role: 'assistant',
+        content: 'Look',
+        timestamp: 1,
+        taskType: TaskType.IMAGE,
+        attachmentUrl: 'javascript:alert(1)',
+        attachmentUrls: ['data:image/png;base64,AAA" onerror="alert(1)', 'javascript:alert(2)'],
+        groundingUrls: [{ title: 'Evil', uri: 'javascript:alert(3)' }, { title: 'Fine', uri: 'https://example.com' }],
+        citations: [{ endIndex: 4, sourceIndices: [1] }],
+      }],
+    },
+  });
+
+  it('drops script URLs and citations that no longer line up', () => {
+    const [message] = parseJsonExport(crafted).messages;
+
+    expect(message.attachmentUrl).toBeUndefined();
+    expect(message.attachmentUrls).toEqual(['data:image/png;base64,AAA" onerror="alert(1)']);
+    expect(message.groundingUrls).toEqual([{ title: 'Fine', uri: 'https://example.com' }]);
+    expect(message.citations).toBeUndefined();
+  });
+
+  it('escapes attribute values in the HTML export', async () => {
+    const html = await toHtml(parseJsonExport(crafted));
+
+    expect(html).toContain('src="data:image/png;base64,AAA&quot; onerror=&quot;alert(1)"');
+    expect(html).not.toContain('javascript:');
+  });
+
+  it('rejects messages without a valid role or text content', () => {
+    const bad = JSON.stringify({ messages: [{ role: 'admin', content: 'hi' }] });
+
+    expect(() => parseJsonExport(bad)).toThrow(/Message 1 in the export is invalid/);
+    expect(() => parseJsonExport(JSON.stringify({ messages: [{ role: 'user', content: { html: '<b>' } }] }))).toThrow(/invalid/);
+  });
+
+  it('drops metadata fields with the wrong shape instead of passing them through', () => {
+    const malformed = JSON.stringify({
+      messages: [{
+        id: 'a1',
+        role: 'assistant',
+        content: 'Hi',
+        timestamp: 1,
+        taskType: 'HACK',
+        usage: 'x',
+        citations: [{ endIndex: 1, sourceIndices: [0] }],
+        safety: { blocked: true, reason: 'SAFETY', source: 'prompt', ratings: 'none' },
+        toolCalls: [{ id: 't1', name: 'get_time', args: {}, durationMs: 3 }, { name: 'broken' }],
+        voices: [{ speaker: 'A' }],
+        orchestrationData: { type: TaskType.TEXT, model: 42 },
+        generationSettings: { aspectRatio: '16:9', durationSeconds: '8' },
+        videoJobId: 'job-1',
+        isStreaming: true,
+        injected: '<script>',
+      }],
+    });
+    const [message] = parseJsonExport(malformed).messages;
+
+    expect(message.taskType).toBeUndefined();
+    expect(message.usage).toBeUndefined();
+    expect(message.citations).toBeUndefined();
+    expect(message.safety).toEqual(expect.objectContaining({ blocked: true, ratings: [] }));
+    expect(message.toolCalls).toEqual([expect.objectContaining({ id: 't1', name: 'get_time' })]);
+    expect(message.voices).toEqual([]);
+    expect(message.orchestrationData).toBeUndefined();
+    expect(message.generationSettings).toEqual({ aspectRatio: '16:9' });
+    expect(message.videoJobId).toBeUndefined();
+    expect(message.isStreaming).toBeUndefined();
+    expect(message).not.toHaveProperty('injected');
+  });
+
+  it('never takes a blob from the file, so the session can still be saved and reloaded', () => {
+    const withBlob = JSON.stringify({ messages: [{ role: 'assistant', content: 'Video', taskType: TaskType.VIDEO, attachmentBlob: {} }] });
+    const [message] = parseJsonExport(withBlob).messages;
+
+    expect(message.attachmentBlob).toBeUndefined();
+    expect(message.attachmentUrl).toBeUndefined();
+  });
+});
+
+describe('toMarkdown', () => {
+  it('includes the transcript and its sources', () => {
+    const markdown = toMarkdown(session);
+
+    expect(markdown).toContain('# Tide research');
+    expect(markdown).toContain('### You\n\nWhy are there tides?');
+    expect(markdown).toContain('- [NOAA](https://oceanservice.noaa.gov/tides)');
+  });
+});
+
+describe('exportFileName', () => {
+  it('slugs the session name and keeps non-Latin scripts', () => {
+    expect(exportFileName(session, 'markdown')).toBe('tide-research.md');
+    expect(exportFileName({ ...session, name: 'Приливы и отливы' }, 'json')).toBe('приливы-и-отливы.json');
+    expect(exportFileName({ ...session, name: '潮汐の研究' }, 'html')).toBe('潮汐の研究.html');
+    expect(exportFileName({ ...session, name: '?!' }, 'json')).toBe('conversation.json');
+  });
+});
+
+describe('downloadBlob', () => {
+  it('keeps the object URL alive long enough for the download to start', () => {
+    vi.useFakeTimers();
+    vi.mocked(URL.revokeObjectURL).mockClear();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    try {
+      downloadBlob('media.zip', new Blob(['zip']));
+      expect(click).toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1000);
+      expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(60_000);
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:test');
+    } finally {
+      click.mockRestore();
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,378 @@
+import { Attachment, AttachmentKind, ChatSession, Citation, GenerationSettings, Message, OrchestrationDecision, SafetyInfo, SpeakerVoice, TaskType, ToolCallRecord, UsageRecord } from "../types";
+import { toAudioBlob } from "./audioService";
+import { describeVoices } from "./speechService";
+import { describeBlock } from "./safetyService";
+import { isMediaUrl, isWebLink } from "./markdownService";
+
+/**
+ * CONVERSATION EXPORT / IMPORT
+ * Markdown is for reading, JSON is lossless (media embedded as data URLs) and
+ * is the only format that can be imported back, HTML is a self-contained page.
+ */
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+const EXPORT_KIND = 'nexus-conversation';
+export const EXPORT_VERSION = 1;
+
+export interface ConversationExport {
+  kind: typeof EXPORT_KIND;
+  version: number;
+  exportedAt: number;
+  session: ChatSession;
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes.buffer as ArrayBuffer], { type: mimeType });
+};
+
+// Inlines blob-backed media (Veo videos) and drops UI-only state
+const toPortableMessage = async (message: Message): Promise<Message> => {
+  const { isStreaming, isThinking, attachmentBlob, videoJobId, ...rest } = message;
+  if (attachmentBlob) {
+    return { ...rest, attachmentUrl: await blobToDataUrl(attachmentBlob) };
+  }
+  if (rest.attachmentUrl?.startsWith('blob:')) {
+    const blob = await fetch(rest.attachmentUrl).then(r => r.blob());
+    return { ...rest, attachmentUrl: await blobToDataUrl(blob) };
+  }
+  return rest;
+};
+
+export const toJsonExport = async (session: ChatSession): Promise<string> => {
+  const data: ConversationExport = {
+    kind: EXPORT_KIND,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    session: { ...session, messages: await Promise.all(session.messages.map(toPortableMessage)) },
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+const mediaNote = (message: Message): string | null => {
+  if (message.taskType === TaskType.IMAGE && message.attachmentUrl) {
+    const count = message.attachmentUrls?.length || 1;
+    return `_[${count > 1 ? `${count} generated images` : 'Generated image'} - see the JSON or HTML export]_`;
+  }
+  if (message.taskType === TaskType.VIDEO && (message.attachmentUrl || message.attachmentBlob)) {
+    return '_[Generated video - see the JSON or HTML export]_';
+  }
+  if (message.audioData) {
+    return `_[Generated audio${message.voices ? ` (${describeVoices(message.voices)})` : ''} - see the JSON or HTML export]_`;
+  }
+  return null;
+};
+
+export const toMarkdown = (session: ChatSession): string => {
+  const sections = session.messages
+    .filter(m => m.role !== 'system' && m.id !== 'welcome')
+    .map(m => {
+      const heading = m.role === 'user'
+        ? '### You'
+        : `### Assistant${m.usedModel ? ` (${m.taskType} · ${m.usedModel})` : ''}`;
+      const parts = [heading, m.content];
+      if (m.attachments?.length) {
+        parts.push(`Attached: ${m.attachments.map(a => a.name).join(', ')}`);
+      }
+      const note = mediaNote(m);
+      if (note) parts.push(note);
+      if (m.safety) parts.push(`_[${describeBlock(m.safety)}]_`);
+      if (m.groundingUrls?.length) {
+        parts.push(['**Sources**', ...m.groundingUrls.map(s => `- [${s.title}](${s.uri})`)].join('\n'));
+      }
+      return parts.join('\n\n');
+    });
+
+  return [`# ${session.name}`, `_Exported ${new Date().toLocaleString()}_`, ...sections].join('\n\n') + '\n';
+};
+
+const IMAGE_MIME_TYPE = /^image\/[\w.+-]+$/;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderHtmlMessage = async (message: Message): Promise<string> => {
+  const portable = await toPortableMessage(message);
+  const label = message.role === 'user'
+    ? 'You'
+    : `Assistant${message.usedModel ? ` · ${message.taskType} · ${message.usedModel}` : ''}`;
+  const parts = [`<div class="meta">${escapeHtml(label)}</div>`, `<div class="content">${escapeHtml(message.content)}</div>`];
+
+  // Every attribute is escaped and media URLs are limited to data:, blob: and http(s)
+  if (message.taskType === TaskType.IMAGE) {
+    (portable.attachmentUrls || (portable.attachmentUrl ? [portable.attachmentUrl] : []))
+      .filter(isMediaUrl)
+      .forEach(url => parts.push(`<img src="${escapeHtml(url)}" alt="Generated image">`));
+  }
+  if (message.taskType === TaskType.VIDEO && isMediaUrl(portable.attachmentUrl)) {
+    parts.push(`<video controls src="${escapeHtml(portable.attachmentUrl!)}"></video>`);
+  }
+  if (message.audioData) {
+    const audioUrl = await blobToDataUrl(toAudioBlob(message.audioData, message.audioMimeType));
+    parts.push(`<audio controls src="${escapeHtml(audioUrl)}"></audio>`);
+  }
+  if (message.safety) {
+    parts.push(`<div class="sources">${escapeHtml(describeBlock(message.safety))}</div>`);
+  }
+  message.attachments?.filter(a => a.kind === 'image' && IMAGE_MIME_TYPE.test(a.mimeType)).forEach(a => {
+    parts.push(`<img src="${escapeHtml(`data:${a.mimeType};base64,${a.data}`)}" alt="${escapeHtml(a.name)}">`);
+  });
+  if (message.groundingUrls?.length) {
+    const links = message.groundingUrls
+      .map(s => isWebLink(s.uri)
+        ? `<li><a href="${escapeHtml(s.uri)}">${escapeHtml(s.title)}</a></li>`
+        : `<li>${escapeHtml(s.title)}</li>`)
+      .join('');
+    parts.push(`<div class="sources">Sources<ul>${links}</ul></div>`);
+  }
+  return `<section class="message ${message.role}">${parts.join('\n')}</section>`;
+};
+
+export const toHtml = async (session: ChatSession): Promise<string> => {
+  const messages = session.messages.filter(m => m.role !== 'system' && m.id !== 'welcome');
+  const body = (await Promise.all(messages.map(renderHtmlMessage))).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(session.name)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; background: #0f172a; color: #e2e8f0; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+  .message { padding: 1rem; border-radius: 0.75rem; margin-bottom: 1rem; background: #1e293b; }
+  .message.user { background: #312e81; }
+  .meta { font-size: 0.75rem; color: #94a3b8; margin-bottom: 0.5rem; }
+  .content { white-space: pre-wrap; line-height: 1.5; }
+  img, video { display: block; max-width: 100%; border-radius: 0.5rem; margin-top: 0.75rem; }
+  audio { margin-top: 0.75rem; width: 100%; }
+  .sources { font-size: 0.8rem; margin-top: 0.75rem; color: #94a3b8; }
+  a { color: #a5b4fc; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(session.name)}</h1>
+${body}
+</body>
+</html>
+`;
+};
+
+// Upgrades older exports one version at a time; key = version being upgraded from
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // Version 0: a bare session (or message list) copied out of storage, without an envelope
+  0: (data) => ({
+    kind: EXPORT_KIND,
+    version: 1,
+    exportedAt: Date.now(),
+    session: Array.isArray(data)
+      ? { messages: data }
+      : data,
+  }),
+};
+
+// Shared exports are untrusted: every field below is type-checked before it reaches the UI
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isTaskType = (value: unknown): value is TaskType => Object.values(TaskType).includes(value as TaskType);
+
+// Keeps the entries that pass `check`; anything other than an array is dropped entirely
+const listOf = <T>(value: unknown, check: (item: any) => boolean): T[] | undefined =>
+  Array.isArray(value) ? value.filter(check) : undefined;
+
+const ATTACHMENT_KINDS: AttachmentKind[] = ['image', 'audio', 'video', 'document'];
+
+const isAttachment = (a: any): a is Attachment =>
+  isObject(a) && isString(a.id) && isString(a.name) && isString(a.mimeType) && isString(a.data)
+  && isNumber(a.size) && ATTACHMENT_KINDS.includes(a.kind);
+
+const isSpeakerVoice = (v: any): v is SpeakerVoice => isObject(v) && isString(v.speaker) && isString(v.voice);
+
+const isUsageRecord = (r: any): r is UsageRecord =>
+  isObject(r) && isString(r.id) && ['orchestration', 'execution'].includes(r.phase) && isString(r.model)
+  && [r.promptTokens, r.outputTokens, r.totalTokens, r.latencyMs, r.estimatedCost, r.timestamp].every(isNumber);
+
+const isToolCall = (c: any): c is ToolCallRecord =>
+  isObject(c) && isString(c.id) && isString(c.name) && isObject(c.args) && isNumber(c.durationMs)
+  && (c.error === undefined || isString(c.error));
+
+const validateSafety = (raw: unknown): SafetyInfo | undefined => {
+  if (!isObject(raw) || typeof raw.blocked !== 'boolean' || !isString(raw.reason) || !['prompt', 'response'].includes(raw.source)) {
+    return undefined;
+  }
+  return {
+    blocked: raw.blocked,
+    reason: raw.reason,
+    source: raw.source,
+    message: isString(raw.message) ? raw.message : undefined,
+    ratings: listOf<SafetyInfo['ratings'][number]>(raw.ratings, r => isObject(r) && isString(r.category) && isString(r.probability))
+      ?.map(r => ({ category: r.category, probability: r.probability, blocked: r.blocked === true || undefined })) || [],
+    suggestedPrompt: isString(raw.suggestedPrompt) ? raw.suggestedPrompt : undefined,
+  };
+};
+
+const validateDecision = (raw: unknown): OrchestrationDecision | undefined => {
+  if (!isObject(raw) || !isTaskType(raw.type) || !isString(raw.model) || !isString(raw.reasoning) || !isString(raw.refinedPrompt)) {
+    return undefined;
+  }
+  return {
+    type: raw.type,
+    model: raw.model,
+    reasoning: raw.reasoning,
+    refinedPrompt: raw.refinedPrompt,
+    requiresPaidKey: raw.requiresPaidKey === true || undefined,
+    isFallback: raw.isFallback === true || undefined,
+    fallbackReason: isString(raw.fallbackReason) ? raw.fallbackReason : undefined,
+    isManual: raw.isManual === true || undefined,
+    speakers: listOf<SpeakerVoice>(raw.speakers, isSpeakerVoice),
+    usePreviousImage: raw.usePreviousImage === true || undefined,
+  };
+};
+
+const validateSettings = (raw: unknown): GenerationSettings | undefined => {
+  if (!isObject(raw)) return undefined;
+  const settings: GenerationSettings = {};
+  (['aspectRatio', 'imageSize', 'videoResolution', 'voiceName', 'safetyThreshold'] as const).forEach(key => {
+    if (isString(raw[key])) settings[key] = raw[key];
+  });
+  (['numberOfOutputs', 'durationSeconds', 'thinkingBudget'] as const).forEach(key => {
+    if (isNumber(raw[key])) settings[key] = raw[key];
+  });
+  return settings;
+};
+
+// Builds the message from known fields only; blobs and background job ids never come from a file
+const validateMessage = (raw: any, index: number): Message => {
+  if (!isObject(raw) || !['user', 'assistant', 'system'].includes(raw.role) || !isString(raw.content)) {
+    throw new Error(`Message ${index + 1} in the export is invalid.`);
+  }
+  const groundingUrls = listOf<{ title: string; uri: string }>(raw.groundingUrls, s => isObject(s) && isString(s.uri) && isWebLink(s.uri))
+    ?.map(s => ({ uri: s.uri, title: isString(s.title) ? s.title : s.uri }));
+  // Citation indices would no longer line up with a filtered source list
+  const citations = groundingUrls && groundingUrls.length === raw.groundingUrls.length
+    ? listOf<Citation>(raw.citations, c => isObject(c) && isNumber(c.endIndex) && Array.isArray(c.sourceIndices)
+      && c.sourceIndices.every((i: unknown) => Number.isInteger(i) && (i as number) >= 0 && (i as number) < groundingUrls.length))
+      ?.map(c => ({ endIndex: c.endIndex, sourceIndices: c.sourceIndices }))
+    : undefined;
+  return {
+    id: String(raw.id ?? `${Date.now()}-${index}`),
+    role: raw.role,
+    content: raw.content,
+    timestamp: Number(raw.timestamp) || Date.now(),
+    attachments: listOf<Attachment>(raw.attachments, isAttachment),
+    taskType: isTaskType(raw.taskType) ? raw.taskType : undefined,
+    usedModel: isString(raw.usedModel) ? raw.usedModel : undefined,
+    attachmentUrl: isString(raw.attachmentUrl) && isMediaUrl(raw.attachmentUrl) ? raw.attachmentUrl : undefined,
+    attachmentUrls: listOf<string>(raw.attachmentUrls, url => isString(url) && isMediaUrl(url)),
+    audioData: isString(raw.audioData) ? raw.audioData : undefined,
+    audioMimeType: isString(raw.audioMimeType) ? raw.audioMimeType : undefined,
+    voices: listOf<SpeakerVoice>(raw.voices, isSpeakerVoice),
+    selectedImageIndex: Number.isInteger(raw.selectedImageIndex) && raw.selectedImageIndex >= 0 ? raw.selectedImageIndex : undefined,
+    groundingUrls,
+    citations,
+    searchQueries: listOf<string>(raw.searchQueries, isString),
+    toolCalls: listOf<ToolCallRecord>(raw.toolCalls, isToolCall)
+      ?.map(c => ({ id: c.id, name: c.name, args: c.args, result: c.result, error: c.error, durationMs: c.durationMs })),
+    orchestrationData: validateDecision(raw.orchestrationData),
+    generationSettings: validateSettings(raw.generationSettings),
+    settingsWarnings: listOf<string>(raw.settingsWarnings, isString),
+    usage: listOf<UsageRecord>(raw.usage, isUsageRecord)?.map(r => ({
+      id: r.id,
+      phase: r.phase,
+      model: r.model,
+      taskType: isTaskType(r.taskType) ? r.taskType : undefined,
+      promptTokens: r.promptTokens,
+      outputTokens: r.outputTokens,
+      totalTokens: r.totalTokens,
+      latencyMs: r.latencyMs,
+      estimatedCost: r.estimatedCost,
+      timestamp: r.timestamp,
+      sessionId: isString(r.sessionId) ? r.sessionId : undefined,
+    })),
+    personaName: isString(raw.personaName) ? raw.personaName : undefined,
+    safety: validateSafety(raw.safety),
+  };
+};
+
+/**
+ * Parses a JSON export back into a session. Throws a user-readable error for
+ * files that aren't conversation exports or come from a newer version.
+ */
+export const parseJsonExport = (json: string): ChatSession => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+
+  const isEnvelope = data?.kind === EXPORT_KIND;
+  const isBareSession = !isEnvelope && (Array.isArray(data) || Array.isArray(data?.messages));
+  if (!isEnvelope && !isBareSession) {
+    throw new Error("This file isn't a conversation export.");
+  }
+
+  let version: number = isEnvelope ? Number(data.version) || 0 : 0;
+  if (version > EXPORT_VERSION) {
+    throw new Error(`This export was made by a newer version (format ${version}); please update the app.`);
+  }
+  while (version < EXPORT_VERSION) {
+    data = MIGRATIONS[version](data);
+    version = data.version;
+  }
+
+  const session: ChatSession = data.session;
+  if (!Array.isArray(session?.messages)) {
+    throw new Error("The export contains no messages.");
+  }
+
+  // Videos go back to blob URLs, matching how live sessions hold them
+  const messages = session.messages.map(validateMessage).map(m =>
+    m.taskType === TaskType.VIDEO && m.attachmentUrl?.startsWith('data:')
+      ? { ...m, attachmentUrl: URL.createObjectURL(dataUrlToBlob(m.attachmentUrl)) }
+      : m
+  );
+  return {
+    id: typeof session.id === 'string' && session.id ? session.id : Date.now().toString(),
+    name: typeof session.name === 'string' && session.name ? session.name : 'Imported chat',
+    createdAt: session.createdAt || Date.now(),
+    updatedAt: session.updatedAt || Date.now(),
+    messages,
+  };
+};
+
+// Keeps letters and digits in any script, so non-Latin session names survive
+export const exportFileName = (session: ChatSession, format: ExportFormat) => {
+  const base = session.name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'conversation';
+  return `${base}.${format === 'markdown' ? 'md' : format}`;
+};
+
+// Triggers a browser download of generated text
+export const downloadText = (fileName: string, content: string, mimeType: string) =>
+  downloadBlob(fileName, new Blob([content], { type: mimeType }));
+
+// Browsers read the blob after click() returns, and large files (zips, videos) can
+// take a while to start, so the URL is kept alive well past the click
+const DOWNLOAD_URL_LIFETIME_MS = 60_000;
+
+export const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
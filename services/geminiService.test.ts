@@ -0,0 +1,296 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { TaskType } from '../types';
+import { TASK_TIMEOUTS_MS } from './requestService';
+import {
+  decodeAudio,
+  decodeAudioDataRaw,
+  generateAudioResponse,
+  generateImageResponse,
+  generateVideoResponse,
+  orchestrateRequest,
+  setTransport,
+  streamTextResponse,
+} from './geminiService';
+import { listTools } from './toolService';
+import { createFakeTransport, textResponse } from '../test/fakeTransport';
+
+// Minimal AudioContext: only createBuffer is used by the decoder
+const fakeAudioContext = () => ({
+  createBuffer: (numChannels: number, length: number, sampleRate: number) => {
+    const channels = Array.from({ length: numChannels }, () => new Float32Array(length));
+    return { numberOfChannels: numChannels, length, sampleRate, getChannelData: (i: number) => channels[i] };
+  },
+}) as unknown as AudioContext;
+
+const routeWith = (text: string) => {
+  setTransport(createFakeTransport(undefined, {
+    generateContent: async () => textResponse(text),
+  }));
+};
+
+describe('orchestrateRequest', () => {
+  it('parses a valid single-task decision', async () => {
+    routeWith(JSON.stringify({
+      type: TaskType.IMAGE,
+      model: 'gemini-2.5-flash-image',
+      reasoning: 'Wants a picture.',
+      refinedPrompt: 'A watercolor fox',
+    }));
+
+    const decision = await orchestrateRequest('paint a fox');
+    expect(decision).toMatchObject({
+      type: TaskType.IMAGE,
+      model: 'gemini-2.5-flash-image',
+      refinedPrompt: 'A watercolor fox',
+      requiresPaidKey: false,
+    });
+    expect(decision.isFallback).toBeUndefined();
+    expect(decision.usage?.phase).toBe('orchestration');
+  });
+
+  it('replaces a model that cannot do the task with the task default', async () => {
+    routeWith(JSON.stringify({
+      type: TaskType.VIDEO,
+      model: 'gemini-3-flash-preview',
+      reasoning: '',
+      refinedPrompt: 'A sunset timelapse',
+    }));
+
+    const decision = await orchestrateRequest('make a video of a sunset');
+    expect(decision.model).toBe('veo-3.1-fast-generate-preview');
+    expect(decision.requiresPaidKey).toBe(true);
+  });
+
+  it('keeps a multi-step plan with valid step references', async () => {
+    routeWith(JSON.stringify({
+      type: TaskType.TEXT,
+      model: 'gemini-3-flash-preview',
+      reasoning: 'Poem, then read it.',
+      refinedPrompt: 'Write a poem',
+      steps: [
+        { type: TaskType.TEXT, model: 'gemini-3-flash-preview', reasoning: '', refinedPrompt: 'Write a poem' },
+        { type: TaskType.AUDIO, model: 'gemini-2.5-flash-preview-tts', reasoning: '', refinedPrompt: 'Read it', inputFromStep: 0 },
+      ],
+    }));
+
+    const decision = await orchestrateRequest('write a poem and read it aloud');
+    expect(decision.steps).toHaveLength(2);
+    expect(decision.steps?.[1]).toMatchObject({ type: TaskType.AUDIO, inputFromStep: 0 });
+  });
+
+  it('falls back to the keyword router on malformed JSON', async () => {
+    routeWith('not json');
+
+    const decision = await orchestrateRequest('draw a cat');
+    expect(decision.isFallback).toBe(true);
+    expect(decision.type).toBe(TaskType.IMAGE);
+    expect(decision.fallbackReason).toMatch(/malformed/);
+  });
+
+  it('falls back on an unknown task type', async () => {
+    routeWith(JSON.stringify({ type: 'POETRY', model: 'x', reasoning: '', refinedPrompt: '' }));
+
+    const decision = await orchestrateRequest('hello there');
+    expect(decision).toMatchObject({ isFallback: true, type: TaskType.TEXT });
+  });
+
+  it('falls back when the router call fails', async () => {
+    setTransport(createFakeTransport(undefined, {
+      generateContent: async () => { throw new Error('boom'); },
+    }));
+
+    const decision = await orchestrateRequest('what is the latest news');
+    expect(decision).toMatchObject({ isFallback: true, type: TaskType.SEARCH });
+    expect(decision.fallbackReason).toMatch(/boom/);
+  });
+
+  it('applies an explicit routing override', async () => {
+    routeWith(JSON.stringify({
+      type: TaskType.TEXT,
+      model: 'gemini-3-flash-preview',
+      reasoning: '',
+      refinedPrompt: 'Hello',
+    }));
+
+    const decision = await orchestrateRequest('hello', [], undefined, undefined, [], { type: TaskType.AUDIO });
+    expect(decision).toMatchObject({ type: TaskType.AUDIO, model: 'gemini-2.5-flash-preview-tts' });
+  });
+
+  it('keeps parsed speakers on AUDIO decisions', async () => {
+    routeWith(JSON.stringify({
+      type: TaskType.AUDIO,
+      model: 'gemini-2.5-flash-preview-tts',
+      reasoning: '',
+      refinedPrompt: 'TTS the following conversation between Joe and Jane:\nJoe: Hi!\nJane: Hello.',
+      speakers: [{ speaker: 'Joe', voice: 'Kore' }, { speaker: 'Jane', voice: 'Puck' }],
+    }));
+
+    const decision = await orchestrateRequest('a short dialogue between Joe and Jane');
+    expect(decision.speakers).toHaveLength(2);
+  });
+});
+
+describe('media handlers', () => {
+  beforeEach(() => {
+    setTransport(createFakeTransport());
+  });
+
+  it('returns one image per requested output', async () => {
+    const { images, usage } = await generateImageResponse('gemini-2.5-flash-image', 'a fox', undefined, [], { numberOfOutputs: 2 });
+    expect(images).toHaveLength(2);
+    expect(images[0].mimeType).toBe('image/png');
+    expect(usage.estimatedCost).toBeGreaterThan(0);
+  });
+
+  it('returns an object URL for the finished video', async () => {
+    const { url, usage } = await generateVideoResponse('veo-3.1-fast-generate-preview', 'a sunset');
+    expect(url).toBe('blob:test');
+    expect(usage.taskType).toBe(TaskType.VIDEO);
+  });
+
+  it('returns base64 PCM audio', async () => {
+    const { audio, mimeType } = await generateAudioResponse('gemini-2.5-flash-preview-tts', 'hello');
+    expect(audio.length).toBeGreaterThan(0);
+    expect(mimeType).toMatch(/rate=24000/);
+  });
+
+  it('sends a multi-speaker config for dialogue', async () => {
+    let sentConfig: any;
+    setTransport(createFakeTransport(undefined, {
+      async generateContent(_operation, params) {
+        sentConfig = params.config;
+        return createFakeTransport().generateContent('tts', params);
+      },
+    }));
+    const speakers = [{ speaker: 'Joe', voice: 'Kore' }, { speaker: 'Jane', voice: 'Puck' }];
+
+    const { voices } = await generateAudioResponse('gemini-2.5-flash-preview-tts', 'Joe: Hi!\nJane: Hello.', undefined, {}, speakers);
+    expect(sentConfig.speechConfig.multiSpeakerVoiceConfig.speakerVoiceConfigs).toHaveLength(2);
+    expect(sentConfig.speechConfig.voiceConfig).toBeUndefined();
+    expect(voices).toEqual(speakers);
+  });
+});
+
+describe('streamTextResponse', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('times out a stream that stalls after its first chunk', async () => {
+    vi.useFakeTimers();
+    let streamSignal: AbortSignal | undefined;
+    setTransport(createFakeTransport(undefined, {
+      async generateContentStream(_params, signal) {
+        streamSignal = signal;
+        return (async function* () {
+          yield textResponse('Partial');
+          // Like a fetch body, the stalled read only ends when the request is aborted
+          await new Promise((_, reject) => signal!.addEventListener('abort', () => reject(new Error('aborted'))));
+        })();
+      },
+    }));
+
+    const chunks: string[] = [];
+    const result = streamTextResponse('gemini-3-flash-preview', 'hi', false, (text) => chunks.push(text));
+    const outcome = expect(result).rejects.toMatchObject({ kind: 'timeout' });
+    await vi.advanceTimersByTimeAsync(TASK_TIMEOUTS_MS[TaskType.TEXT]);
+
+    await outcome;
+    expect(chunks).toEqual(['Partial']);
+    expect(streamSignal?.aborted).toBe(true);
+  });
+});
+
+describe('tool calling', () => {
+  it('runs function calls and streams the final answer', async () => {
+    const requests: any[] = [];
+    setTransport(createFakeTransport(undefined, {
+      async generateContentStream(params) {
+        requests.push(structuredClone(params));
+        const reply = requests.length === 1
+          ? textResponse('', { content: { role: 'model', parts: [{ functionCall: { name: 'calculator', args: { expression: '6 * 7' } }, thoughtSignature: 'sig' }] } })
+          : textResponse('The answer is 42.');
+        return (async function* () { yield reply; })();
+      },
+    }));
+
+    const calls: string[] = [];
+    const result = await streamTextResponse(
+      'gemini-3-flash-preview', 'what is 6 times 7?', false, () => {}, undefined, [], undefined, [], {},
+      listTools(), (records) => calls.push(...records.map(r => r.name))
+    );
+
+    expect(result.text).toBe('The answer is 42.');
+    expect(result.toolCalls).toMatchObject([{ name: 'calculator', result: { result: 42 } }]);
+    expect(calls).toEqual(['calculator']);
+    expect(requests[0].config.tools[0].functionDeclarations.map((d: any) => d.name)).toContain('calculator');
+    // The model turn goes back with its thought signature, followed by the function response
+    const [modelTurn, responseTurn] = requests[1].contents.slice(-2);
+    expect(modelTurn.parts[0].thoughtSignature).toBe('sig');
+    expect(responseTurn.parts[0].functionResponse).toEqual({ name: 'calculator', response: { output: { expression: '6 * 7', result: 42 } } });
+  });
+
+  it('forbids further calls on the last round', async () => {
+    const modes: unknown[] = [];
+    setTransport(createFakeTransport(undefined, {
+      async generateContentStream(params) {
+        modes.push((params.config as any).toolConfig?.functionCallingConfig?.mode);
+        return (async function* () {
+          yield textResponse('', { content: { role: 'model', parts: [{ functionCall: { name: 'current_date', args: {} } }] } });
+        })();
+      },
+    }));
+
+    const result = await streamTextResponse(
+      'gemini-3-flash-preview', 'what day is it?', false, () => {}, undefined, [], undefined, [], {}, listTools()
+    );
+    expect(modes[modes.length - 1]).toBe('NONE');
+    expect(modes.slice(0, -1).every(mode => mode === undefined)).toBe(true);
+    expect(result.toolCalls.length).toBe(modes.length - 1);
+  });
+});
+
+describe('audio decoding', () => {
+  it('converts 16-bit PCM to normalized floats', async () => {
+    const pcm = new Int16Array([0, 16384, -32768, 32767]);
+    const buffer = await decodeAudioDataRaw(new Uint8Array(pcm.buffer), fakeAudioContext(), 24000, 1);
+
+    expect(buffer.length).toBe(4);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5, -1, 32767 / 32768]);
+  });
+
+  it('de-interleaves multi-channel PCM', async () => {
+    const pcm = new Int16Array([16384, -16384, 0, 8192]);
+    const buffer = await decodeAudioDataRaw(new Uint8Array(pcm.buffer), fakeAudioContext(), 24000, 2);
+
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, 0.25]);
+  });
+
+  it('ignores an odd trailing byte', async () => {
+    const bytes = new Uint8Array([0, 64, 7]);
+    const buffer = await decodeAudioDataRaw(bytes, fakeAudioContext(), 24000, 1);
+
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5]);
+  });
+
+  it('reads the sample rate and channels from the mimeType', async () => {
+    const pcm = new Int16Array([16384, -16384]);
+    const base64 = btoa(String.fromCharCode(...new Uint8Array(pcm.buffer)));
+    const buffer = await decodeAudio(base64, fakeAudioContext(), 'audio/L16;codec=pcm;rate=16000;channels=2');
+
+    expect(buffer.sampleRate).toBe(16000);
+    expect(buffer.numberOfChannels).toBe(2);
+  });
+
+  it('decodes base64 audio as 24 kHz mono by default', async () => {
+    const pcm = new Int16Array([0, 16384]);
+    const base64 = btoa(String.fromCharCode(...new Uint8Array(pcm.buffer)));
+    const buffer = await decodeAudio(base64, fakeAudioContext());
+
+    expect(buffer.numberOfChannels).toBe(1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5]);
+  });
+});
@@ -1,68 +1,158 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { TaskType, OrchestrationDecision } from "../types";
+import { Type, Modality, GroundingMetadata, GenerateVideosOperation, Content, FunctionCall, FunctionCallingConfigMode, Part } from "@google/genai";
+import { TaskType, OrchestrationDecision, Message, ContextWindow, Attachment, GenerationSettings, RoutingOverride, SafetyInfo, SpeakerVoice, ToolCallRecord, UsageRecord } from "../types";
+import { DEFAULT_CONTEXT_WINDOW, toContents, toTranscript } from "./historyService";
+import { ORCHESTRATOR_MODEL, TTS_VOICES, describeRoutingRules, describeTasks, listModels } from "./modelRegistry";
+import { MAX_PLAN_STEPS, applyRoutingOverride, fallbackRoute, validatePlan } from "./routingService";
+import { describeAttachments, toInlinePart } from "./attachmentService";
+import { buildGenerationConfig } from "./settingsService";
+import { GeminiTransport, createHttpTransport } from "./transport";
+import { base64ToBytes, isRawPcm, parsePcmFormat } from "./audioService";
+import { buildSpeechConfig, getMaxSpeakers } from "./speechService";
+import { MAX_TOOL_ROUNDS, ToolContext, ToolDefinition, runToolCall, toFunctionDeclarations, toFunctionResponsePart } from "./toolService";
+import { DEFAULT_VIDEO_SECONDS, combineUsage, createUsageRecord } from "./usageService";
+import { SafetyBlockedError, buildSafetySettings, describeBlock, getSafetyInfo } from "./safetyService";
+import { ORCHESTRATION_TIMEOUT_MS, RequestError, TASK_TIMEOUTS_MS, VIDEO_POLL_TIMEOUT_MS, classifyError, sleep, withRetry } from "./requestService";
 
-// Helper to get client instance - recreated to ensure fresh API key usage
-const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+// All Gemini traffic goes through the transport; in the browser that is the
+// server proxy, so the API key never ships to the client
+let transport: GeminiTransport = createHttpTransport();
+
+export const setTransport = (next: GeminiTransport) => {
+  transport = next;
+};
 
 /**
  * 1. ORCHESTRATION LAYER
  * Analyzes the user intent and selects the best model.
  */
-export const orchestrateRequest = async (userPrompt: string): Promise<OrchestrationDecision> => {
-  const ai = getClient();
-  
-  // We use Flash for the "Brain" logic as it's fast and cheap.
-  const orchestratorModel = "gemini-3-flash-preview";
-
-  const systemInstruction = `
+export const orchestrateRequest = async (
+  userPrompt: string,
+  history: Message[] = [],
+  signal?: AbortSignal,
+  contextWindow: ContextWindow = DEFAULT_CONTEXT_WINDOW,
+  attachments: Attachment[] = [],
+  routing?: RoutingOverride | null
+): Promise<OrchestrationDecision> => {
+  // Task list and routing rules are generated from the model registry
+  let systemInstruction = `
     You are an AI Orchestrator. Your goal is to analyze the user's request and categorize it into one of the following tasks:
-    - TEXT: General questions, writing, coding, reasoning.
-    - IMAGE: Requests to draw, paint, generate, or create an image/picture/photo.
-    - VIDEO: Requests to create, generate, or animate a video/movie/clip.
-    - AUDIO: Requests to speak, say, or generate speech/audio.
-    - SEARCH: Requests specifically asking for current events, news, or real-time info.
-
-    You must also select the best Google Gemini model based on these rules:
-    - Simple Text/Search -> 'gemini-3-flash-preview'
-    - Complex Text/Reasoning/Coding -> 'gemini-3-pro-preview'
-    - Image Generation -> 'gemini-2.5-flash-image' (Default) or 'gemini-3-pro-image-preview' (if high quality/HD/4k mentioned)
-    - Video Generation -> 'veo-3.1-fast-generate-preview'
-    - Audio/TTS -> 'gemini-2.5-flash-preview-tts'
+${describeTasks()}
+
+    You must also select the best model based on these rules:
+${describeRoutingRules()}
 
     Refine the prompt to be optimal for the target model.
+    If the request refers to earlier turns (e.g. "make it shorter", "now draw that"),
+    resolve the reference so the refined prompt is self-contained.
+
+    The user may attach files. Describing or asking about an attachment is TEXT,
+    editing an attached image is IMAGE, and animating an attached image is VIDEO.
+
+    If the request changes or builds on the most recently generated image (e.g. "make the sky purple",
+    "same scene but at night", "animate it"), choose IMAGE (or VIDEO to animate it) and set
+    "usePreviousImage" to true; that image is then sent along, so the refinedPrompt should describe
+    the change rather than the whole scene.
+
+    If the request asks for several different outputs (e.g. "write a poem, read it aloud
+    and make a matching image"), also return them as an ordered "steps" list (at most ${MAX_PLAN_STEPS}),
+    each with its own type, model, reasoning and refinedPrompt. Set "inputFromStep" to the
+    0-based index of an earlier step when a step should build on that step's output
+    (e.g. AUDIO reading an earlier TEXT, IMAGE illustrating it, or VIDEO animating an earlier IMAGE).
+    The top-level fields then describe the first step. Omit "steps" for single-task requests.
+
+    For AUDIO, decide whether the request is a monologue or a dialogue:
+    - Monologue/narration: omit "speakers". The refinedPrompt is the text to speak, optionally
+      led by a style direction (e.g. "Say cheerfully: Have a wonderful day!").
+    - Dialogue with 2 to ${getMaxSpeakers()} speakers: list them in "speakers" with a voice each
+      (${TTS_VOICES.join(', ')}). Write the refinedPrompt as a script introduced by one line of
+      direction (e.g. "TTS the following conversation between Joe and Jane:"), then one
+      "Name: line" per turn using exactly those speaker names. Inline style cues such as
+      "(whispering)" or "(excitedly)" may precede a line.
   `;
 
-  const response = await ai.models.generateContent({
-    model: orchestratorModel,
-    contents: userPrompt,
-    config: {
-      systemInstruction: systemInstruction,
-      responseMimeType: "application/json",
-      responseSchema: {
+  // The user picked a mode or slash command - the router only refines the prompt
+  if (routing?.type || routing?.model) {
+    systemInstruction += `
+    The user explicitly requested${routing.type ? ` task type ${routing.type}` : ''}${routing.model ? ` using model '${routing.model}'` : ''}.
+    Use exactly that and do not return "steps".
+  `;
+  }
+
+  const decisionProperties = {
+    type: { type: Type.STRING, enum: Object.values(TaskType) },
+    model: { type: Type.STRING, enum: listModels().map(m => m.id) },
+    reasoning: { type: Type.STRING },
+    refinedPrompt: { type: Type.STRING },
+    usePreviousImage: { type: Type.BOOLEAN },
+    speakers: {
+      type: Type.ARRAY,
+      items: {
         type: Type.OBJECT,
         properties: {
-          type: { type: Type.STRING, enum: [TaskType.TEXT, TaskType.IMAGE, TaskType.VIDEO, TaskType.AUDIO, TaskType.SEARCH] },
-          model: { type: Type.STRING },
-          reasoning: { type: Type.STRING },
-          refinedPrompt: { type: Type.STRING },
+          speaker: { type: Type.STRING },
+          voice: { type: Type.STRING, enum: TTS_VOICES },
         },
-        required: ["type", "model", "reasoning", "refinedPrompt"]
+        required: ["speaker", "voice"]
       }
-    }
-  });
+    },
+  };
 
-  const result = JSON.parse(response.text || "{}");
-  
-  // Flag if Veo or Pro Image is used, as they might need paid key check in UI
-  const requiresPaidKey = result.model.includes('veo') || result.model.includes('pro-image');
+  const transcript = toTranscript(history, contextWindow);
+  let contents = transcript
+    ? `Conversation so far:\n${transcript}\n\nLatest request:\n${userPrompt}`
+    : userPrompt;
+  if (attachments.length > 0) {
+    contents += `\n\nAttached files:\n${describeAttachments(attachments)}`;
+  }
 
-  return {
-    type: result.type as TaskType,
-    model: result.model,
-    reasoning: result.reasoning,
-    refinedPrompt: result.refinedPrompt,
-    requiresPaidKey
-  };
+  const startedAt = Date.now();
+  let response;
+  try {
+    response = await withRetry(abortSignal => transport.generateContent('orchestrate', {
+      model: ORCHESTRATOR_MODEL,
+      contents,
+      config: {
+        systemInstruction: systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            ...decisionProperties,
+            steps: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  ...decisionProperties,
+                  inputFromStep: { type: Type.INTEGER },
+                },
+                required: ["type", "model", "reasoning", "refinedPrompt"]
+              }
+            },
+          },
+          required: ["type", "model", "reasoning", "refinedPrompt"]
+        }
+      }
+    }, abortSignal), { signal, timeoutMs: ORCHESTRATION_TIMEOUT_MS, retries: 1 });
+  } catch (err: any) {
+    // A cancelled request must not silently continue via the fallback router
+    if (signal?.aborted) throw classifyError(err);
+    console.warn("Orchestrator call failed, using fallback router", err);
+    return applyRoutingOverride(fallbackRoute(userPrompt, `Router unavailable: ${err?.message || 'unknown error'}`), routing);
+  }
+
+  const usage = createUsageRecord('orchestration', ORCHESTRATOR_MODEL, startedAt, response.usageMetadata);
+
+  let result;
+  try {
+    result = JSON.parse(response.text || "");
+  } catch {
+    return { ...applyRoutingOverride(fallbackRoute(userPrompt, "Router returned an empty or malformed response."), routing), usage };
+  }
+
+  const decision = validatePlan(result, userPrompt)
+    ?? fallbackRoute(userPrompt, "Router returned an invalid task type.");
+  return { ...applyRoutingOverride(decision, routing), usage };
 };
 
 /**
@@ -71,143 +161,409 @@ export const orchestrateRequest = async (userPrompt: string): Promise<Orchestrat
  */
 
 // Text & Search
-export const generateTextResponse = async (model: string, prompt: string, useSearch: boolean) => {
-  const ai = getClient();
+// Search grounding and function declarations are mutually exclusive, so tools only apply to TEXT.
+const buildTextConfig = (
+  model: string,
+  useSearch: boolean,
+  settings: GenerationSettings = {},
+  tools: ToolDefinition[] = [],
+  systemInstruction?: string // From the active persona
+) => {
   const config: any = {
     // Basic text config
   };
+  if (systemInstruction) config.systemInstruction = systemInstruction;
 
   if (useSearch) {
     config.tools = [{ googleSearch: {} }];
-  } else if (model.includes('pro')) {
-     // Enable thinking for complex tasks if using Pro model
-     config.thinkingConfig = { thinkingBudget: 1024 }; 
+    if (settings.thinkingBudget !== undefined) {
+      config.thinkingConfig = { thinkingBudget: settings.thinkingBudget };
+    }
+    if (settings.safetyThreshold) {
+      config.safetySettings = buildSafetySettings(settings.safetyThreshold);
+    }
+  } else {
+    // Registry defaults (e.g. thinking budget for Pro models) with user settings applied
+    Object.assign(config, buildGenerationConfig(model, settings));
+    if (tools.length > 0) {
+      config.tools = [{ functionDeclarations: toFunctionDeclarations(tools) }];
+    }
   }
+  return config;
+};
 
-  const response = await ai.models.generateContent({
+// The last allowed round forbids further calls so the model has to answer
+const configForRound = (config: any, round: number) =>
+  round < MAX_TOOL_ROUNDS || !config.tools
+    ? config
+    : { ...config, toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } };
+
+const textOf = (parts: Part[]) => parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+
+// Runs the model's function calls and appends the exchange to `contents` for the next round.
+// The model turn is sent back as received, since it carries the thought signatures.
+const runToolRound = async (
+  contents: Content[],
+  modelParts: Part[],
+  calls: FunctionCall[],
+  tools: ToolDefinition[],
+  context: ToolContext
+): Promise<ToolCallRecord[]> => {
+  const records = await Promise.all(calls.map(call => runToolCall(call, context, tools)));
+  contents.push(
+    { role: 'model', parts: modelParts },
+    { role: 'user', parts: records.map((record, i) => toFunctionResponsePart(record, calls[i].id)) }
+  );
+  return records;
+};
+
+// Speech-to-text for voice input. Returns only the spoken words, so the
+// transcript can go through the orchestrator like a typed prompt.
+export const transcribeAudio = async (model: string, audio: Attachment, signal?: AbortSignal) => {
+  const startedAt = Date.now();
+  const response = await withRetry(abortSignal => transport.generateContent('text', {
     model,
-    contents: prompt,
-    config
-  });
+    contents: [{
+      role: 'user',
+      parts: [
+        toInlinePart(audio),
+        { text: "Transcribe this recording verbatim in its original language. Reply with the transcript only, no commentary. If nothing is said, reply with an empty string." },
+      ],
+    }],
+    config: { thinkingConfig: { thinkingBudget: 0 } },
+  }, abortSignal), { signal, timeoutMs: TASK_TIMEOUTS_MS[TaskType.TEXT] });
 
   return {
-    text: response.text,
-    groundingChunks: response.candidates?.[0]?.groundingMetadata?.groundingChunks
+    text: (response.text || '').trim(),
+    usage: createUsageRecord('execution', model, startedAt, response.usageMetadata, TaskType.TEXT)
   };
 };
 
-// Image Generation
-export const generateImageResponse = async (model: string, prompt: string) => {
-  const ai = getClient();
-  
-  // Specific check for Pro Image model capabilities
-  const isPro = model === 'gemini-3-pro-image-preview';
-  
-  const response = await ai.models.generateContent({
-    model,
-    contents: prompt,
-    config: {
-      // Pro supports resolution, Flash does not (defaults to 1:1 usually)
-      imageConfig: isPro ? { imageSize: "2K", aspectRatio: "16:9" } : { aspectRatio: "1:1" }
+// Streaming Text & Search
+// Calls onChunk with the accumulated text as tokens arrive. Aborting the signal
+// stops the stream and resolves with whatever was received so far.
+// Only opening the stream is retried; a stream that fails midway is not restarted.
+// The whole read, across tool rounds, is bounded by the task timeout, so a stream
+// that stalls after its first chunk still ends.
+// With tools, each round of function calls is run and a new stream is opened
+// for the model's continuation; onToolCalls receives every call made so far.
+export const streamTextResponse = async (
+  model: string,
+  prompt: string,
+  useSearch: boolean,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal,
+  history: Message[] = [],
+  contextWindow: ContextWindow = DEFAULT_CONTEXT_WINDOW,
+  attachments: Attachment[] = [],
+  settings: GenerationSettings = {},
+  tools: ToolDefinition[] = [],
+  onToolCalls?: (calls: ToolCallRecord[]) => void,
+  systemInstruction?: string
+) => {
+  const startedAt = Date.now();
+  const taskType = useSearch ? TaskType.SEARCH : TaskType.TEXT;
+  const contents = toContents(history, prompt, contextWindow, attachments);
+  const config = buildTextConfig(model, useSearch, settings, tools, systemInstruction);
+  const usage: UsageRecord[] = [];
+  const toolCalls: ToolCallRecord[] = [];
+
+  let text = '';
+  let groundingMetadata: GroundingMetadata | undefined;
+  let safety: SafetyInfo | null = null;
+
+  // Aborted by the caller or by the read timeout; the transport stops reading on either
+  const streamController = new AbortController();
+  const stopStream = () => streamController.abort();
+  signal?.addEventListener('abort', stopStream);
+  let timedOut = false;
+  const stalled = () => new RequestError('timeout', "The response stalled and was stopped.");
+  const readTimer = setTimeout(() => {
+    timedOut = true;
+    streamController.abort();
+  }, TASK_TIMEOUTS_MS[taskType]);
+
+  try {
+    for (let round = 0; ; round++) {
+      if (timedOut) throw stalled();
+      // This signal (not the per-attempt one) must outlive withRetry to stop the stream
+      const stream = await withRetry(() => transport.generateContentStream({
+        model,
+        contents,
+        config: configForRound(config, round)
+      }, streamController.signal), { signal, timeoutMs: TASK_TIMEOUTS_MS[taskType] });
+
+      const modelParts: Part[] = [];
+      let usageMetadata;
+      try {
+        for await (const chunk of stream) {
+          if (signal?.aborted) break;
+          const parts = chunk.candidates?.[0]?.content?.parts || [];
+          modelParts.push(...parts);
+          text += textOf(parts);
+          // Grounding and usage metadata arrive with the final chunks of the stream
+          groundingMetadata = chunk.candidates?.[0]?.groundingMetadata || groundingMetadata;
+          usageMetadata = chunk.usageMetadata || usageMetadata;
+          safety = getSafetyInfo(chunk) || safety;
+          onChunk(text);
+        }
+      } catch (err) {
+        if (!signal?.aborted && !timedOut) throw err;
+      }
+      if (timedOut) throw stalled();
+      usage.push(createUsageRecord('execution', model, startedAt, usageMetadata, taskType));
+
+      const calls = modelParts.filter(p => p.functionCall).map(p => p.functionCall!);
+      if (signal?.aborted || calls.length === 0 || round >= MAX_TOOL_ROUNDS) break;
+
+      toolCalls.push(...await runToolRound(contents, modelParts, calls, tools, { history, signal }));
+      onToolCalls?.([...toolCalls]);
+      // Keep text written before the calls separate from the continuation
+      if (text && !text.endsWith('\n')) text += '\n\n';
     }
-  });
-
-  // Extract image
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return {
-        base64: part.inlineData.data,
-        mimeType: part.inlineData.mimeType || 'image/png'
-      };
+  } finally {
+    clearTimeout(readTimer);
+    signal?.removeEventListener('abort', stopStream);
+  }
+
+  // The blocking chunk usually carries no text, so judge by everything that streamed
+  if (safety?.source === 'response') safety = { ...safety, blocked: !text.trim() };
+
+  return {
+    text: text.trimEnd(),
+    groundingMetadata,
+    safety,
+    toolCalls,
+    stopped: !!signal?.aborted,
+    usage: combineUsage(usage)
+  };
+};
+
+// Rephrase Suggestion
+// Asks the orchestrator model for a version of a blocked prompt that keeps its
+// legitimate intent. Resolves to null when it can't (or shouldn't) offer one.
+export const suggestRephrase = async (prompt: string, safety: SafetyInfo, signal?: AbortSignal) => {
+  const startedAt = Date.now();
+  const response = await withRetry(abortSignal => transport.generateContent('orchestrate', {
+    model: ORCHESTRATOR_MODEL,
+    contents: `Blocked prompt:\n${prompt}\n\nReason: ${describeBlock(safety)}`,
+    config: {
+      systemInstruction: `
+    A user's request to a generative model was blocked by its safety filters.
+    If the request has a legitimate purpose that was likely misread (e.g. fiction, education,
+    medical or security questions asked in alarming words), rewrite it so that purpose is clear
+    and the wording is less likely to be flagged. Keep the user's language and intent.
+    If the request is genuinely harmful, return an empty "rephrased" string.
+  `,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: { rephrased: { type: Type.STRING } },
+        required: ["rephrased"]
+      }
     }
+  }, abortSignal), { signal, timeoutMs: ORCHESTRATION_TIMEOUT_MS, retries: 1 });
+
+  let rephrased = '';
+  try {
+    rephrased = String(JSON.parse(response.text || '{}').rephrased || '').trim();
+  } catch {
+    // Malformed output means no suggestion
   }
-  throw new Error("No image data returned from API.");
+  return {
+    prompt: rephrased && rephrased !== prompt.trim() ? rephrased : null,
+    usage: createUsageRecord('orchestration', ORCHESTRATOR_MODEL, startedAt, response.usageMetadata)
+  };
+};
+
+// Image Generation
+// Attached images are sent alongside the prompt, which turns the call into an edit.
+// The model returns one image per call, so several outputs mean parallel calls.
+export const generateImageResponse = async (
+  model: string,
+  prompt: string,
+  signal?: AbortSignal,
+  attachments: Attachment[] = [],
+  settings: GenerationSettings = {}
+) => {
+  const sourceImages = attachments.filter(a => a.kind === 'image');
+  // Pro supports resolution, Flash does not (see registry settings)
+  const config = buildGenerationConfig(model, settings);
+
+  const generateOne = async () => {
+    const startedAt = Date.now();
+    const response = await withRetry(abortSignal => transport.generateContent('image', {
+      model,
+      contents: sourceImages.length > 0
+        ? [{ role: 'user', parts: [{ text: prompt }, ...sourceImages.map(toInlinePart)] }]
+        : prompt,
+      config
+    }, abortSignal), { signal, timeoutMs: TASK_TIMEOUTS_MS[TaskType.IMAGE] });
+
+    // Extract image
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData?.data) {
+        return {
+          base64: part.inlineData.data,
+          mimeType: part.inlineData.mimeType || 'image/png',
+          usage: createUsageRecord('execution', model, startedAt, response.usageMetadata, TaskType.IMAGE, { images: 1 })
+        };
+      }
+    }
+    const safety = getSafetyInfo(response);
+    if (safety) throw new SafetyBlockedError(safety);
+    throw new Error("No image data returned from API.");
+  };
+
+  const results = await Promise.all(Array.from({ length: settings.numberOfOutputs || 1 }, generateOne));
+  return {
+    images: results.map(({ base64, mimeType }) => ({ base64, mimeType })),
+    usage: combineUsage(results.map(r => r.usage))
+  };
 };
 
 // Video Generation
-export const generateVideoResponse = async (model: string, prompt: string) => {
-  const ai = getClient();
-  
-  let operation = await ai.models.generateVideos({
+// Split into start / poll / download so long renders can also run as background
+// jobs (see videoJobService). The first attached image, if any, is used as the
+// starting frame (image-to-video).
+export const VIDEO_POLL_INTERVAL_MS = 5000;
+
+export const startVideoOperation = (
+  model: string,
+  prompt: string,
+  signal?: AbortSignal,
+  attachments: Attachment[] = [],
+  settings: GenerationSettings = {}
+) => {
+  const startFrame = attachments.find(a => a.kind === 'image');
+  return withRetry(abortSignal => transport.generateVideos({
     model,
     prompt,
-    config: {
-      numberOfVideos: 1,
-      resolution: '720p',
-      aspectRatio: '16:9'
-    }
-  });
+    image: startFrame ? { imageBytes: startFrame.data, mimeType: startFrame.mimeType } : undefined,
+    config: buildGenerationConfig(model, settings)
+  }, abortSignal), { signal, timeoutMs: TASK_TIMEOUTS_MS[TaskType.VIDEO] });
+};
 
-  // Poll for completion
-  while (!operation.done) {
-    await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5s
-    operation = await ai.operations.getVideosOperation({ operation });
-  }
+export const getVideoOperation = (name: string, model: string, signal?: AbortSignal) =>
+  withRetry(
+    abortSignal => transport.getVideosOperation(name, model, abortSignal),
+    { signal, timeoutMs: VIDEO_POLL_TIMEOUT_MS }
+  );
 
+// Downloads a finished operation's video; the proxy fetches the bytes server-side with the API key
+export const downloadVideoResult = async (
+  operation: GenerateVideosOperation,
+  model: string,
+  startedAt: number,
+  signal?: AbortSignal,
+  settings: GenerationSettings = {}
+) => {
+  if (operation.error) throw new Error(String(operation.error.message || "Video generation failed."));
   const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
   if (!videoUri) throw new Error("Video generation failed or returned no URI.");
 
-  // Fetch the actual bytes using the API key
-  const fileResponse = await fetch(`${videoUri}&key=${process.env.API_KEY}`);
-  if (!fileResponse.ok) throw new Error("Failed to download generated video.");
-  
-  const blob = await fileResponse.blob();
-  return URL.createObjectURL(blob);
+  const blob = await withRetry(
+    abortSignal => transport.downloadVideo(videoUri, model, abortSignal),
+    { signal, timeoutMs: TASK_TIMEOUTS_MS[TaskType.VIDEO] }
+  );
+  // Veo reports no token usage; it is billed per second of video
+  const config = buildGenerationConfig(model, settings);
+  const videoSeconds = (config.durationSeconds || DEFAULT_VIDEO_SECONDS) * (config.numberOfVideos || 1);
+  return {
+    url: URL.createObjectURL(blob),
+    usage: createUsageRecord('execution', model, startedAt, undefined, TaskType.VIDEO, { videoSeconds })
+  };
+};
+
+// Runs a whole generation in the foreground, bounded by the VIDEO task timeout
+export const generateVideoResponse = async (
+  model: string,
+  prompt: string,
+  signal?: AbortSignal,
+  attachments: Attachment[] = [],
+  settings: GenerationSettings = {}
+) => {
+  const startedAt = Date.now();
+  const deadline = Date.now() + TASK_TIMEOUTS_MS[TaskType.VIDEO];
+
+  let operation = await startVideoOperation(model, prompt, signal, attachments, settings);
+  while (!operation.done) {
+    if (Date.now() >= deadline) {
+      throw new RequestError('timeout', "Video generation took too long and was stopped.");
+    }
+    await sleep(Math.min(VIDEO_POLL_INTERVAL_MS, deadline - Date.now()), signal).catch(err => {
+      throw classifyError(err);
+    });
+    operation = await getVideoOperation(operation.name!, model, signal);
+  }
+
+  return downloadVideoResult(operation, model, startedAt, signal, settings);
 };
 
 // Audio Generation (TTS)
-export const generateAudioResponse = async (model: string, text: string) => {
-  const ai = getClient();
-  
-  const response = await ai.models.generateContent({
+// With two or more speakers the text is a "Name: line" script and each speaker
+// gets their own voice; otherwise one voice (from settings) reads the text.
+export const generateAudioResponse = async (
+  model: string,
+  text: string,
+  signal?: AbortSignal,
+  settings: GenerationSettings = {},
+  speakers: SpeakerVoice[] = []
+) => {
+  const config = buildGenerationConfig(model, settings);
+  if (speakers.length >= 2) {
+    config.speechConfig = buildSpeechConfig(speakers);
+  }
+  const voices: SpeakerVoice[] = speakers.length >= 2
+    ? speakers
+    : [{ speaker: '', voice: config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName || 'default' }];
+
+  const startedAt = Date.now();
+  const response = await withRetry(abortSignal => transport.generateContent('tts', {
     model,
     contents: [{ parts: [{ text }] }],
     config: {
       responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Fenrir' }, // Deep, narrator voice
-        },
-      },
+      ...config,
     },
-  });
+  }, abortSignal), { signal, timeoutMs: TASK_TIMEOUTS_MS[TaskType.AUDIO] });
 
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!base64Audio) throw new Error("No audio data returned.");
+  const inlineData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+  if (!inlineData?.data) {
+    const safety = getSafetyInfo(response);
+    throw safety ? new SafetyBlockedError(safety) : new Error("No audio data returned.");
+  }
   
-  return base64Audio;
+  return {
+    audio: inlineData.data,
+    mimeType: inlineData.mimeType,
+    voices,
+    usage: createUsageRecord('execution', model, startedAt, response.usageMetadata, TaskType.AUDIO)
+  };
 };
 
 // Audio Decoding Helper
-export const decodeAudio = async (base64: string, ctx: AudioContext) => {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+// Raw PCM is decoded using the sample rate and channel count from the mimeType;
+// container formats (WAV, MP3, ...) go through the browser's decoder.
+export const decodeAudio = async (base64: string, ctx: BaseAudioContext, mimeType?: string) => {
+  const bytes = base64ToBytes(base64);
+  if (!isRawPcm(mimeType)) {
+    return ctx.decodeAudioData(bytes.buffer as ArrayBuffer);
   }
-  
-  // Simplified decoding for playback
-  // Note: In a real robust app, we might handle headers manually if raw PCM, 
-  // but Gemini TTS usually returns a container format decodable by browser if properly handled.
-  // However, the docs say raw PCM often. 
-  // For this implementation, we will try standard decodeAudioData which works if the API returns a WAV container 
-  // or if we wrap the PCM. 
-  
-  // The guide mentions raw PCM. Let's implement the specific PCM decoder from the guide just in case.
-  const audioBuffer = await decodeAudioDataRaw(bytes, ctx, 24000, 1);
-  return audioBuffer;
+  const format = parsePcmFormat(mimeType);
+  return decodeAudioDataRaw(bytes, ctx, format.sampleRate, format.channels);
 };
 
-async function decodeAudioDataRaw(
+export async function decodeAudioDataRaw(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  // Convert Uint8 (bytes) to Int16 (PCM values)
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
+  // Convert Uint8 (bytes) to Int16 (PCM values). Copying drops any odd trailing
+  // byte and makes the view 2-byte aligned even if `data` is a subarray.
+  const dataInt16 = new Int16Array(data.slice(0, data.byteLength - (data.byteLength % 2)).buffer);
+  const frameCount = Math.floor(dataInt16.length / numChannels);
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
@@ -218,4 +574,4 @@ async function decodeAudioDataRaw(
     }
   }
   return buffer;
-}
\ No newline at end of file
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { Attachment, Message, TaskType } from '../types';
+import { selectHistory, toContents, toTranscript } from './historyService';
+
+const message = (id: string, role: Message['role'], content: string, extra: Partial<Message> = {}): Message =>
+  ({ id, role, content, timestamp: 0, ...extra });
+
+describe('selectHistory', () => {
+  it('skips the welcome bubble, system notes and empty messages', () => {
+    const history = [
+      message('welcome', 'assistant', 'Hi there'),
+      message('1', 'user', 'Hello'),
+      message('2', 'system', 'Switched model'),
+      message('3', 'assistant', '  '),
+      message('4', 'assistant', 'Hey'),
+    ];
+    expect(selectHistory(history).map(m => m.id)).toEqual(['1', '4']);
+  });
+
+  it('keeps the most recent messages that fit the turn and token limits', () => {
+    const history = ['a', 'b', 'c', 'd'].map((id, i) => message(id, i % 2 ? 'assistant' : 'user', 'x'.repeat(40)));
+
+    expect(selectHistory(history, { maxTurns: 3, maxTokens: 1000 }).map(m => m.id)).toEqual(['b', 'c', 'd']);
+    // Each message is ~10 tokens
+    expect(selectHistory(history, { maxTurns: 10, maxTokens: 25 }).map(m => m.id)).toEqual(['c', 'd']);
+    expect(selectHistory(history, { maxTurns: 10, maxTokens: 5 })).toEqual([]);
+  });
+});
+
+describe('toContents', () => {
+  it('starts with a user turn and merges consecutive turns from the same side', () => {
+    const history = [
+      message('1', 'assistant', 'Earlier answer'),
+      message('2', 'user', 'First'),
+      message('3', 'user', 'Second'),
+      message('4', 'assistant', 'Reply'),
+    ];
+
+    expect(toContents(history, 'Now this')).toEqual([
+      { role: 'user', parts: [{ text: 'First' }, { text: 'Second' }] },
+      { role: 'model', parts: [{ text: 'Reply' }] },
+      { role: 'user', parts: [{ text: 'Now this' }] },
+    ]);
+  });
+
+  it('appends the prompt and its attachments to a trailing user turn', () => {
+    const photo: Attachment = { id: 'a', name: 'a.png', mimeType: 'image/png', kind: 'image', size: 3, data: 'AAA' };
+    const contents = toContents([message('1', 'user', 'Unanswered')], 'Describe this', undefined, [photo]);
+
+    expect(contents).toHaveLength(1);
+    expect(contents[0].parts).toEqual([
+      { text: 'Unanswered' },
+      { text: 'Describe this' },
+      { inlineData: { mimeType: 'image/png', data: 'AAA' } },
+    ]);
+  });
+});
+
+describe('toTranscript', () => {
+  it('labels speakers, task types and attached files', () => {
+    const history = [
+      message('1', 'user', 'Draw a fox', { attachments: [{ id: 'a', name: 'fox.png', mimeType: 'image/png', kind: 'image', size: 3, data: 'AAA' }] }),
+      message('2', 'assistant', 'Here it is', { taskType: TaskType.IMAGE }),
+    ];
+    expect(toTranscript(history)).toBe('USER: Draw a fox [attached: fox.png]\nASSISTANT (IMAGE): Here it is');
+  });
+});
@@ -0,0 +1,115 @@
+import { Content } from "@google/genai";
+import { Message, ContextWindow, Attachment } from "../types";
+import { toInlinePart } from "./attachmentService";
+
+export const DEFAULT_CONTEXT_WINDOW: ContextWindow = {
+  maxTurns: 20,
+  maxTokens: 8000,
+};
+
+const CONTEXT_WINDOW_STORAGE_KEY = 'nexus-context-window';
+
+// Bounds for the user-set window, so a typo can't send the whole chat or nothing
+export const CONTEXT_WINDOW_LIMITS: Record<keyof ContextWindow, { min: number; max: number }> = {
+  maxTurns: { min: 1, max: 100 },
+  maxTokens: { min: 500, max: 100_000 },
+};
+
+const clampWindowField = (key: keyof ContextWindow, value: unknown) => {
+  const { min, max } = CONTEXT_WINDOW_LIMITS[key];
+  return typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, Math.round(value)))
+    : DEFAULT_CONTEXT_WINDOW[key];
+};
+
+export const loadContextWindow = (): ContextWindow => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONTEXT_WINDOW_STORAGE_KEY) || '{}');
+    return {
+      maxTurns: clampWindowField('maxTurns', stored.maxTurns),
+      maxTokens: clampWindowField('maxTokens', stored.maxTokens),
+    };
+  } catch {
+    return DEFAULT_CONTEXT_WINDOW;
+  }
+};
+
+export const saveContextWindow = (window: ContextWindow) => {
+  localStorage.setItem(CONTEXT_WINDOW_STORAGE_KEY, JSON.stringify({
+    maxTurns: clampWindowField('maxTurns', window.maxTurns),
+    maxTokens: clampWindowField('maxTokens', window.maxTokens),
+  }));
+};
+
+// Rough heuristic (~4 chars per token) - good enough for keeping payloads bounded
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Picks the most recent messages that fit into the window, oldest first.
+ * Welcome/system messages and empty bubbles are skipped.
+ */
+export const selectHistory = (history: Message[], window: ContextWindow = DEFAULT_CONTEXT_WINDOW): Message[] => {
+  const candidates = history
+    .filter(m => m.role !== 'system' && m.id !== 'welcome' && m.content?.trim())
+    .slice(-window.maxTurns);
+
+  const selected: Message[] = [];
+  let budget = window.maxTokens;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(candidates[i].content);
+    if (cost > budget) break;
+    budget -= cost;
+    selected.unshift(candidates[i]);
+  }
+  return selected;
+};
+
+/**
+ * Converts chat history into a multi-turn `contents` array for generateContent.
+ * Gemini expects 'user'/'model' roles, a leading user turn, and alternating roles,
+ * so consecutive messages from the same side are merged.
+ * Attachments are only sent inline for the latest prompt to keep payloads bounded.
+ */
+export const toContents = (
+  history: Message[],
+  prompt: string,
+  window: ContextWindow = DEFAULT_CONTEXT_WINDOW,
+  attachments: Attachment[] = []
+): Content[] => {
+  const contents: Content[] = [];
+
+  for (const msg of selectHistory(history, window)) {
+    const role = msg.role === 'user' ? 'user' : 'model';
+    if (contents.length === 0 && role === 'model') continue;
+
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts!.push({ text: msg.content });
+    } else {
+      contents.push({ role, parts: [{ text: msg.content }] });
+    }
+  }
+
+  const promptParts = [{ text: prompt }, ...attachments.map(toInlinePart)];
+  const last = contents[contents.length - 1];
+  if (last && last.role === 'user') {
+    last.parts!.push(...promptParts);
+  } else {
+    contents.push({ role: 'user', parts: promptParts });
+  }
+  return contents;
+};
+
+/**
+ * Flattens history into a plain transcript for the orchestrator, so it can
+ * resolve references like "make it shorter" or "draw that".
+ */
+export const toTranscript = (history: Message[], window: ContextWindow = DEFAULT_CONTEXT_WINDOW): string => {
+  return selectHistory(history, window)
+    .map(m => {
+      const speaker = m.role === 'user' ? 'USER' : `ASSISTANT${m.taskType ? ` (${m.taskType})` : ''}`;
+      const files = m.attachments?.length ? ` [attached: ${m.attachments.map(a => a.name).join(', ')}]` : '';
+      return `${speaker}: ${m.content}${files}`;
+    })
+    .join('\n');
+};
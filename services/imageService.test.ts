@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { Message, TaskType } from '../types';
+import { findPreviousImage } from './imageService';
+
+const imageMessage = (id: string, urls: string[], selectedImageIndex?: number): Message => ({
+  id,
+  role: 'assistant',
+  content: 'Generated.',
+  timestamp: 0,
+  taskType: TaskType.IMAGE,
+  attachmentUrl: urls[0],
+  attachmentUrls: urls.length > 1 ? urls : undefined,
+  selectedImageIndex,
+});
+
+describe('findPreviousImage', () => {
+  it('returns the most recent generated image as an attachment', () => {
+    const image = findPreviousImage([
+      imageMessage('1', ['data:image/png;base64,AAAA']),
+      { id: '2', role: 'user', content: 'now at night', timestamp: 0 },
+      imageMessage('3', ['data:image/jpeg;base64,BBBB']),
+    ]);
+
+    expect(image).toMatchObject({ kind: 'image', mimeType: 'image/jpeg', data: 'BBBB' });
+  });
+
+  it('uses the output the user picked', () => {
+    const image = findPreviousImage([
+      imageMessage('1', ['data:image/png;base64,AAAA', 'data:image/png;base64,BBBB'], 1),
+    ]);
+
+    expect(image?.data).toBe('BBBB');
+  });
+
+  it('returns null without a generated image', () => {
+    expect(findPreviousImage([{ id: '1', role: 'user', content: 'hi', timestamp: 0 }])).toBeNull();
+  });
+});
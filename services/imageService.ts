@@ -0,0 +1,29 @@
+import { Attachment, Message, TaskType } from "../types";
+import { fromDataUrl } from "./attachmentService";
+
+/**
+ * IMAGE CONVERSATIONS
+ * Follow-ups like "make the sky purple" edit the last generated image rather
+ * than starting over. When a message has several outputs, the one the user
+ * picked is the one that gets refined.
+ */
+
+export const VARIATION_COUNTS = [2, 4];
+
+export const getSelectedImageUrl = (message: Message): string | undefined =>
+  message.attachmentUrls?.[message.selectedImageIndex ?? 0] ?? message.attachmentUrl;
+
+// Most recent generated image in the conversation, as an attachment for the next call
+export const findPreviousImage = (history: Message[]): Attachment | null => {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const message = history[i];
+    if (message.role !== 'assistant' || message.taskType !== TaskType.IMAGE) continue;
+    const url = getSelectedImageUrl(message);
+    if (url) return fromDataUrl(url, 'previous-image.png');
+  }
+  return null;
+};
+
+export const buildVariationPrompt = (originalPrompt: string) =>
+  `Create a variation of the attached image. Keep the subject and overall composition recognizable, ` +
+  `but vary details, lighting and color. Original description: ${originalPrompt}`;
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { Message } from '../types';
+import { getCodeFileName, getCodeLanguage, isExternalLink, toCopyableMarkdown } from './markdownService';
+
+describe('code block helpers', () => {
+  it('reads the language from the highlighter class names', () => {
+    expect(getCodeLanguage('hljs language-TypeScript')).toBe('typescript');
+    expect(getCodeLanguage('language-c++')).toBe('c++');
+    expect(getCodeLanguage(undefined)).toBeNull();
+  });
+
+  it('names downloads by language', () => {
+    expect(getCodeFileName('python')).toBe('snippet.py');
+    expect(getCodeFileName('dockerfile')).toBe('Dockerfile');
+    expect(getCodeFileName(null)).toBe('snippet.txt');
+  });
+});
+
+describe('isExternalLink', () => {
+  it('only allows web and mail links', () => {
+    expect(isExternalLink('https://example.com')).toBe(true);
+    expect(isExternalLink('mailto:a@example.com')).toBe(true);
+    expect(isExternalLink('javascript:alert(1)')).toBe(false);
+    expect(isExternalLink('')).toBe(false);
+  });
+});
+
+describe('toCopyableMarkdown', () => {
+  it('turns citation markers into links to the sources', () => {
+    const message: Message = {
+      id: '1',
+      role: 'assistant',
+      content: 'Tides follow the moon.',
+      timestamp: 0,
+      groundingUrls: [{ title: 'noaa.gov', uri: 'https://noaa.gov/tides' }],
+      citations: [{ endIndex: 22, sourceIndices: [0] }],
+    };
+
+    expect(toCopyableMarkdown(message)).toBe('Tides follow the moon.[1](https://noaa.gov/tides)');
+    expect(toCopyableMarkdown({ ...message, citations: undefined })).toBe('Tides follow the moon.');
+  });
+});
@@ -0,0 +1,54 @@
+import { Message } from "../types";
+import { CITATION_HREF_PREFIX, insertCitationMarkers } from "./citationService";
+
+/**
+ * MARKDOWN HELPERS
+ * Support for the rich message renderer: code block languages and file
+ * names, link safety and the clipboard.
+ */
+
+const CODE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js', js: 'js', jsx: 'jsx',
+  typescript: 'ts', ts: 'ts', tsx: 'tsx',
+  python: 'py', py: 'py',
+  ruby: 'rb', rust: 'rs', go: 'go', java: 'java', kotlin: 'kt', swift: 'swift',
+  c: 'c', cpp: 'cpp', 'c++': 'cpp', csharp: 'cs', cs: 'cs',
+  php: 'php', sql: 'sql', html: 'html', xml: 'xml', css: 'css', scss: 'scss',
+  json: 'json', yaml: 'yml', yml: 'yml', toml: 'toml',
+  bash: 'sh', sh: 'sh', shell: 'sh', zsh: 'sh', powershell: 'ps1',
+  markdown: 'md', md: 'md', dockerfile: 'Dockerfile',
+};
+
+// `language-ts` (possibly alongside `hljs`) -> `ts`
+export const getCodeLanguage = (className?: string): string | null =>
+  className?.match(/language-([\w+#-]+)/)?.[1].toLowerCase() ?? null;
+
+export const getCodeFileName = (language: string | null): string => {
+  const extension = (language && CODE_EXTENSIONS[language]) || 'txt';
+  return extension === 'Dockerfile' ? extension : `snippet.${extension}`;
+};
+
+// Only http(s) and mailto links leave the app; everything else stays inert
+export const isExternalLink = (href?: string): boolean =>
+  !!href && /^(https?:|mailto:)/i.test(href);
+
+// Search sources and citations must point at the web
+export const isWebLink = (href?: string): boolean =>
+  !!href && /^https?:\/\//i.test(href);
+
+// Generated media is held in data: or blob: URLs (or fetched from the web)
+export const isMediaUrl = (url?: string): boolean =>
+  !!url && /^(data:|blob:|https?:\/\/)/i.test(url);
+
+// Message text with inline citation markers pointing at the real source URLs
+export const toCopyableMarkdown = (message: Message): string => {
+  if (!message.citations?.length || !message.groundingUrls?.length) return message.content;
+  const sources = message.groundingUrls;
+  return insertCitationMarkers(message.content, message.citations).replace(
+    new RegExp(`\\(${CITATION_HREF_PREFIX}(\\d+)\\)`, 'g'),
+    (marker, index) => (sources[Number(index)] ? `(${sources[Number(index)].uri})` : marker)
+  );
+};
+
+export const copyToClipboard = (text: string): Promise<void> =>
+  navigator.clipboard.writeText(text);
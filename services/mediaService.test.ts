@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { ChatSession, Message, TaskType } from '../types';
+import { collectMedia, filterMedia, getItemFileName, getMediaFileName, listMediaModels } from './mediaService';
+import { createZip, crc32 } from './zipService';
+
+const at = new Date(2025, 2, 14, 9, 30, 5).getTime();
+
+const assistant = (id: string, extra: Partial<Message>): Message => ({
+  id,
+  role: 'assistant',
+  content: 'Done.',
+  timestamp: at,
+  orchestrationData: { type: extra.taskType!, model: extra.usedModel!, reasoning: '', refinedPrompt: 'A fox in the snow!' },
+  ...extra,
+});
+
+const session = (id: string, messages: Message[]): ChatSession =>
+  ({ id, name: `Chat ${id}`, createdAt: at, updatedAt: at, messages });
+
+describe('collectMedia', () => {
+  const sessions = [
+    session('s1', [
+      { id: 'u1', role: 'user', content: 'draw', timestamp: at },
+      assistant('m1', {
+        taskType: TaskType.IMAGE,
+        usedModel: 'gemini-2.5-flash-image',
+        attachmentUrl: 'data:image/png;base64,AAA',
+        attachmentUrls: ['data:image/png;base64,AAA', 'data:image/jpeg;base64,BBB'],
+      }),
+      assistant('m2', { taskType: TaskType.TEXT, usedModel: 'gemini-3-flash-preview', timestamp: at + 1000 }),
+    ]),
+    session('s2', [
+      assistant('m3', { taskType: TaskType.AUDIO, usedModel: 'gemini-2.5-flash-preview-tts', audioData: 'AAAA', audioMimeType: 'audio/L16;codec=pcm;rate=24000', timestamp: at + 2000 }),
+      assistant('m4', { taskType: TaskType.VIDEO, usedModel: 'veo-3.1-fast-generate-preview', videoJobId: 'job-1' }),
+    ]),
+  ];
+
+  it('gathers every output across sessions, newest first', () => {
+    const items = collectMedia(sessions);
+
+    expect(items.map(i => i.id)).toEqual(['m3-audio', 'm1-0', 'm1-1']);
+    expect(items[0]).toMatchObject({ kind: 'audio', sessionId: 's2', sessionName: 'Chat s2', prompt: 'A fox in the snow!' });
+    expect(listMediaModels(items)).toEqual(['gemini-2.5-flash-image', 'gemini-2.5-flash-preview-tts']);
+  });
+
+  it('filters by type and model', () => {
+    const items = collectMedia(sessions);
+
+    expect(filterMedia(items, { kind: 'image' })).toHaveLength(2);
+    expect(filterMedia(items, { model: 'gemini-2.5-flash-preview-tts' })).toHaveLength(1);
+    expect(filterMedia(items, { kind: 'video' })).toHaveLength(0);
+  });
+
+  it('names files from the prompt, time and output type', () => {
+    const [audio, first, second] = collectMedia(sessions);
+
+    expect(getItemFileName(first)).toBe('a-fox-in-the-snow-20250314-093005-1.png');
+    expect(getItemFileName(second)).toBe('a-fox-in-the-snow-20250314-093005-2.jpg');
+    expect(getItemFileName(audio)).toBe('a-fox-in-the-snow-20250314-093007.wav');
+    expect(getMediaFileName('!!!', at, 'video/mp4')).toBe('generated-20250314-093005.mp4');
+    expect(getMediaFileName('word '.repeat(30), at, 'image/png')).toMatch(/^(word-){8}word-20250314/);
+    expect(getMediaFileName('Ein Fuchs im Schnee, größer!', at, 'image/png')).toBe('ein-fuchs-im-schnee-größer-20250314-093005.png');
+    expect(getMediaFileName('雪の中のキツネ 2', at, 'image/png')).toBe('雪の中のキツネ-2-20250314-093005.png');
+  });
+});
+
+const readBytes = (blob: Blob) => new Promise<Uint8Array>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+describe('createZip', () => {
+  it('stores entries with their checksums and a central directory', async () => {
+    const data = new TextEncoder().encode('hello');
+    const zip = createZip([{ name: 'a.txt', data, modifiedAt: at }, { name: 'a.txt', data }]);
+    const bytes = await readBytes(zip);
+    const view = new DataView(bytes.buffer);
+
+    expect(crc32(data)).toBe(0x3610a686);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(0x3610a686);
+    expect(new TextDecoder().decode(bytes)).toContain('a (2).txt');
+    // End of central directory: two entries
+    expect(view.getUint32(bytes.length - 22, true)).toBe(0x06054b50);
+    expect(view.getUint16(bytes.length - 12, true)).toBe(2);
+  });
+});
@@ -0,0 +1,143 @@
+import { ChatSession, MediaItem, MediaKind, Message, TaskType } from "../types";
+import { isRawPcm, toAudioBlob } from "./audioService";
+import { createZip } from "./zipService";
+
+/**
+ * MEDIA LIBRARY
+ * Collects every generated image, video and audio clip across conversations,
+ * names files after the prompt and time, and bundles selections into a zip.
+ */
+
+export const MEDIA_KIND_LABELS: Record<MediaKind, string> = {
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio',
+};
+
+export interface MediaFilter {
+  kind?: MediaKind;
+  model?: string;
+}
+
+// One item per output; a TEXT answer read aloud counts as an audio clip
+const toMediaItems = (message: Message, session: ChatSession): MediaItem[] => {
+  if (message.role !== 'assistant') return [];
+  const base = {
+    sessionId: session.id,
+    sessionName: session.name,
+    messageId: message.id,
+    model: message.usedModel,
+    prompt: message.orchestrationData?.refinedPrompt || message.content,
+    timestamp: message.timestamp,
+  };
+  const items: MediaItem[] = [];
+
+  if (message.taskType === TaskType.IMAGE) {
+    const urls = message.attachmentUrls || (message.attachmentUrl ? [message.attachmentUrl] : []);
+    urls.forEach((url, idx) => items.push({
+      ...base,
+      id: `${message.id}-${idx}`,
+      kind: 'image',
+      url,
+      mimeType: getMediaMimeType('image', undefined, url),
+      index: urls.length > 1 ? idx + 1 : undefined,
+    }));
+  }
+  if (message.taskType === TaskType.VIDEO && (message.attachmentUrl || message.attachmentBlob)) {
+    items.push({
+      ...base,
+      id: `${message.id}-0`,
+      kind: 'video',
+      url: message.attachmentUrl,
+      blob: message.attachmentBlob,
+      mimeType: message.attachmentBlob?.type || 'video/mp4',
+    });
+  }
+  if (message.audioData) {
+    items.push({
+      ...base,
+      id: `${message.id}-audio`,
+      kind: 'audio',
+      audioData: message.audioData,
+      mimeType: message.audioMimeType,
+    });
+  }
+  return items;
+};
+
+// Newest first
+export const collectMedia = (sessions: ChatSession[]): MediaItem[] =>
+  sessions
+    .flatMap(session => session.messages.flatMap(message => toMediaItems(message, session)))
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+export const filterMedia = (items: MediaItem[], filter: MediaFilter) =>
+  items.filter(item => (!filter.kind || item.kind === filter.kind) && (!filter.model || item.model === filter.model));
+
+export const listMediaModels = (items: MediaItem[]) =>
+  Array.from(new Set(items.map(item => item.model).filter((m): m is string => !!m))).sort();
+
+// Type of the file as downloaded: data URLs carry their own, raw PCM is saved as WAV
+export const getMediaMimeType = (kind: MediaKind, mimeType?: string, url?: string) => {
+  const fromUrl = url?.match(/^data:([^;,]+)/)?.[1];
+  if (fromUrl) return fromUrl;
+  if (kind === 'audio' && isRawPcm(mimeType)) return 'audio/wav';
+  return mimeType || (kind === 'image' ? 'image/png' : kind === 'video' ? 'video/mp4' : 'audio/wav');
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/svg+xml': 'svg',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'video/quicktime': 'mov',
+};
+
+// File extension for a MIME type, e.g. "mp3" for audio/mpeg
+export const getMediaExtension = (mimeType: string) =>
+  EXTENSIONS[mimeType] || mimeType.split('/')[1]?.replace(/[^a-z0-9].*$/, '') || 'bin';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local time, e.g. 20250314-093005
+const formatFileTimestamp = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+};
+
+// First words of the prompt, in any script, kept short enough for any file system
+const slugify = (prompt: string, maxLength = 48) => {
+  const slug = prompt.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+  if (slug.length <= maxLength) return slug;
+  const cut = slug.slice(0, maxLength);
+  return cut.slice(0, cut.lastIndexOf('-') > 0 ? cut.lastIndexOf('-') : maxLength);
+};
+
+/**
+ * "a-fox-in-the-snow-20250314-093005-2.png". The index tells apart the outputs
+ * of one request; prompts without usable characters fall back to "generated".
+ */
+export const getMediaFileName = (prompt: string, timestamp: number, mimeType: string, index?: number) =>
+  `${slugify(prompt) || 'generated'}-${formatFileTimestamp(timestamp)}${index ? `-${index}` : ''}.${getMediaExtension(mimeType)}`;
+
+export const getItemFileName = (item: MediaItem) =>
+  getMediaFileName(item.prompt, item.timestamp, getMediaMimeType(item.kind, item.mimeType, item.url), item.index);
+
+export const toMediaBlob = async (item: MediaItem): Promise<Blob> => {
+  if (item.audioData) return toAudioBlob(item.audioData, item.mimeType);
+  if (item.blob) return item.blob;
+  if (!item.url) throw new Error("This item has no media to download.");
+  return fetch(item.url).then(r => r.blob());
+};
+
+export const createMediaZip = async (items: MediaItem[]): Promise<Blob> => {
+  const entries = await Promise.all(items.map(async item => ({
+    name: getItemFileName(item),
+    data: new Uint8Array(await (await toMediaBlob(item)).arrayBuffer()),
+    modifiedAt: item.timestamp,
+  })));
+  return createZip(entries);
+};
+
+export const getZipFileName = (timestamp = Date.now()) => `nexus-media-${formatFileTimestamp(timestamp)}.zip`;
@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ModelDefinition, TaskType } from '../types';
+import {
+  ORCHESTRATOR_MODEL,
+  describeRoutingRules,
+  getDefaultModel,
+  getModel,
+  getModelsForTask,
+  listModels,
+  registerModel,
+  unregisterModel,
+} from './modelRegistry';
+
+const standIn: ModelDefinition = {
+  id: 'local-echo',
+  label: 'Local echo',
+  provider: 'stub',
+  taskTypes: [TaskType.TEXT],
+  capabilities: [],
+  requiresPaidKey: false,
+  costTier: 'low',
+  routingHint: 'Offline smoke tests',
+  defaultConfig: {},
+};
+
+afterEach(() => {
+  unregisterModel(standIn.id);
+});
+
+describe('model registry', () => {
+  it('has a provider, task types and one default per task for the built-in models', () => {
+    expect(listModels().every(m => m.provider && m.taskTypes.length > 0)).toBe(true);
+    Object.values(TaskType).forEach(type => {
+      expect(getModelsForTask(type).filter(m => m.isDefault)).toHaveLength(1);
+    });
+    expect(getModel(ORCHESTRATOR_MODEL)).toBeDefined();
+  });
+
+  it('routes to a registered stand-in without changing the defaults', () => {
+    registerModel(standIn);
+
+    expect(getModel('local-echo')?.provider).toBe('stub');
+    expect(getModelsForTask(TaskType.TEXT).map(m => m.id)).toContain('local-echo');
+    expect(getDefaultModel(TaskType.TEXT)?.id).toBe('gemini-3-flash-preview');
+    expect(describeRoutingRules()).toContain("- Offline smoke tests (TEXT) -> 'local-echo'");
+  });
+
+  it('replaces an entry with the same id and retires it again', () => {
+    registerModel(standIn);
+    registerModel({ ...standIn, label: 'Local echo v2' });
+
+    expect(listModels().filter(m => m.id === 'local-echo')).toHaveLength(1);
+    expect(getModel('local-echo')?.label).toBe('Local echo v2');
+
+    unregisterModel('local-echo');
+    expect(getModel('local-echo')).toBeUndefined();
+    expect(getModelsForTask(TaskType.TEXT).map(m => m.id)).not.toContain('local-echo');
+  });
+
+  it('falls back to the first model for a task when none is marked default', () => {
+    registerModel({ ...standIn, taskTypes: [TaskType.AUDIO] });
+    const tts = getModel('gemini-2.5-flash-preview-tts')!;
+    registerModel({ ...tts, isDefault: false });
+
+    try {
+      expect(getDefaultModel(TaskType.AUDIO)?.id).toBe('gemini-2.5-flash-preview-tts');
+    } finally {
+      registerModel(tts);
+    }
+  });
+});
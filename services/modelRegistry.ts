@@ -0,0 +1,191 @@
+import { TaskType, ModelDefinition } from "../types";
+
+/**
+ * MODEL REGISTRY
+ * Single source of truth for every model the orchestrator can route to.
+ * The orchestrator prompt, its response schema and the execution handlers
+ * are all derived from these entries.
+ */
+
+// We use Flash for the "Brain" logic as it's fast and cheap.
+export const ORCHESTRATOR_MODEL = "gemini-3-flash-preview";
+
+export const TASK_DESCRIPTIONS: Record<TaskType, string> = {
+  [TaskType.TEXT]: 'General questions, writing, coding, reasoning.',
+  [TaskType.IMAGE]: 'Requests to draw, paint, generate, or create an image/picture/photo.',
+  [TaskType.VIDEO]: 'Requests to create, generate, or animate a video/movie/clip.',
+  [TaskType.AUDIO]: 'Requests to speak, say, or generate speech/audio.',
+  [TaskType.SEARCH]: 'Requests specifically asking for current events, news, or real-time info.',
+};
+
+const IMAGE_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+export const TTS_VOICES = ['Fenrir', 'Kore', 'Puck', 'Charon', 'Zephyr', 'Aoede', 'Leda', 'Orus'];
+
+// HarmBlockThreshold values accepted by generateContent models (Veo takes no safety settings)
+export const SAFETY_THRESHOLDS = ['BLOCK_LOW_AND_ABOVE', 'BLOCK_MEDIUM_AND_ABOVE', 'BLOCK_ONLY_HIGH', 'BLOCK_NONE', 'OFF'];
+
+const MODELS: ModelDefinition[] = [
+  {
+    id: 'gemini-3-flash-preview',
+    label: 'Gemini 3 Flash',
+    provider: 'gemini',
+    taskTypes: [TaskType.TEXT, TaskType.SEARCH],
+    capabilities: ['search'],
+    requiresPaidKey: false,
+    costTier: 'low',
+    routingHint: 'Simple Text/Search',
+    isDefault: true,
+    defaultConfig: {},
+    settings: {
+      thinkingBudget: { min: 0, max: 24576 },
+      safetyThresholds: SAFETY_THRESHOLDS,
+    },
+    pricing: { inputPerMillionTokens: 0.5, outputPerMillionTokens: 3 },
+  },
+  {
+    id: 'gemini-3-pro-preview',
+    label: 'Gemini 3 Pro',
+    provider: 'gemini',
+    taskTypes: [TaskType.TEXT, TaskType.SEARCH],
+    capabilities: ['reasoning', 'thinking', 'search'],
+    requiresPaidKey: false,
+    costTier: 'medium',
+    routingHint: 'Complex Text/Reasoning/Coding',
+    defaultConfig: {
+      thinkingConfig: { thinkingBudget: 1024 },
+    },
+    settings: {
+      thinkingBudget: { min: 128, max: 32768 },
+      safetyThresholds: SAFETY_THRESHOLDS,
+    },
+    pricing: { inputPerMillionTokens: 2, outputPerMillionTokens: 12 },
+  },
+  {
+    id: 'gemini-2.5-flash-image',
+    label: 'Gemini 2.5 Flash Image',
+    provider: 'gemini',
+    taskTypes: [TaskType.IMAGE],
+    capabilities: ['image-generation'],
+    requiresPaidKey: false,
+    costTier: 'low',
+    routingHint: 'Image Generation (Default)',
+    isDefault: true,
+    defaultConfig: {
+      imageConfig: { aspectRatio: '1:1' },
+    },
+    settings: {
+      aspectRatios: IMAGE_ASPECT_RATIOS,
+      maxOutputs: 4,
+      safetyThresholds: SAFETY_THRESHOLDS,
+    },
+    pricing: { perImage: 0.039 },
+  },
+  {
+    id: 'gemini-3-pro-image-preview',
+    label: 'Gemini 3 Pro Image',
+    provider: 'gemini',
+    taskTypes: [TaskType.IMAGE],
+    capabilities: ['image-generation', 'high-resolution'],
+    requiresPaidKey: true,
+    costTier: 'high',
+    routingHint: 'Image Generation when high quality/HD/4k is mentioned',
+    defaultConfig: {
+      imageConfig: { imageSize: '2K', aspectRatio: '16:9' },
+    },
+    settings: {
+      aspectRatios: IMAGE_ASPECT_RATIOS,
+      imageSizes: ['1K', '2K', '4K'],
+      maxOutputs: 4,
+      safetyThresholds: SAFETY_THRESHOLDS,
+    },
+    pricing: { perImage: 0.134 },
+  },
+  {
+    id: 'veo-3.1-fast-generate-preview',
+    label: 'Veo 3.1 Fast',
+    provider: 'gemini',
+    taskTypes: [TaskType.VIDEO],
+    capabilities: ['video-generation'],
+    requiresPaidKey: true,
+    costTier: 'high',
+    routingHint: 'Video Generation',
+    isDefault: true,
+    defaultConfig: {
+      numberOfVideos: 1,
+      resolution: '720p',
+      aspectRatio: '16:9',
+      durationSeconds: 8,
+    },
+    settings: {
+      aspectRatios: ['16:9', '9:16'],
+      videoResolutions: ['720p', '1080p'],
+      durations: [4, 6, 8],
+      resolutionDurations: { '1080p': [8] },
+      maxOutputs: 1,
+    },
+    pricing: { perVideoSecond: 0.15 },
+  },
+  {
+    id: 'gemini-2.5-flash-preview-tts',
+    label: 'Gemini 2.5 Flash TTS',
+    provider: 'gemini',
+    taskTypes: [TaskType.AUDIO],
+    capabilities: ['speech'],
+    requiresPaidKey: false,
+    costTier: 'low',
+    routingHint: 'Audio/TTS',
+    isDefault: true,
+    defaultConfig: {
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: 'Fenrir' }, // Deep, narrator voice
+        },
+      },
+    },
+    settings: {
+      voices: TTS_VOICES,
+      maxSpeakers: 2,
+      safetyThresholds: SAFETY_THRESHOLDS,
+    },
+    pricing: { inputPerMillionTokens: 0.5, outputPerMillionTokens: 10 },
+  },
+];
+
+const registry = new Map<string, ModelDefinition>(MODELS.map(m => [m.id, m]));
+
+// Adds or replaces an entry, e.g. a local stand-in with provider 'stub'. The proxy in
+// server/ reads this module too and checks and dispatches requests by it, so the
+// entry has to be registered in code both sides load (or added to MODELS above).
+export const registerModel = (model: ModelDefinition) => {
+  registry.set(model.id, model);
+};
+
+// Retires a model from routing
+export const unregisterModel = (id: string) => {
+  registry.delete(id);
+};
+
+export const listModels = (): ModelDefinition[] => Array.from(registry.values());
+
+export const getModel = (id: string): ModelDefinition | undefined => registry.get(id);
+
+export const getModelsForTask = (type: TaskType): ModelDefinition[] =>
+  listModels().filter(m => m.taskTypes.includes(type));
+
+export const getDefaultModel = (type: TaskType): ModelDefinition | undefined => {
+  const candidates = getModelsForTask(type);
+  return candidates.find(m => m.isDefault) || candidates[0];
+};
+
+// Task categories, formatted for the orchestrator system prompt
+export const describeTasks = (): string =>
+  Object.values(TaskType)
+    .map(type => `- ${type}: ${TASK_DESCRIPTIONS[type]}`)
+    .join('\n');
+
+// Routing rules, formatted for the orchestrator system prompt
+export const describeRoutingRules = (): string =>
+  listModels()
+    .map(m => `- ${m.routingHint} (${m.taskTypes.join('/')}) -> '${m.id}'`)
+    .join('\n');
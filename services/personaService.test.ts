@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { OrchestrationDecision, Persona, TaskType } from '../types';
+import {
+  applyPersonaModel,
+  applyPersonaVoice,
+  fillTemplate,
+  getSystemInstruction,
+  getTemplateVariables,
+  parseLibraryJson,
+  toLibraryJson,
+} from './personaService';
+
+const reviewer: Persona = {
+  id: 'p1',
+  name: 'Reviewer',
+  systemInstruction: 'You review code tersely.',
+  preferredModel: 'gemini-3-pro-preview',
+  defaultVoice: 'Kore',
+};
+
+const step = (type: TaskType, model: string, extra: Partial<OrchestrationDecision> = {}): OrchestrationDecision =>
+  ({ type, model, reasoning: '', refinedPrompt: 'x', ...extra });
+
+describe('prompt templates', () => {
+  it('lists variables once, in order', () => {
+    expect(getTemplateVariables('Translate {{text}} into {{ language }}, keeping {{text}} intact')).toEqual(['text', 'language']);
+  });
+
+  it('fills variables and leaves blanks visible', () => {
+    expect(fillTemplate('Review this {{language}} code: {{code}}', { language: 'Go', code: ' ' }))
+      .toBe('Review this Go code: {{code}}');
+  });
+});
+
+describe('persona application', () => {
+  it('uses the preferred model only where it supports the task', () => {
+    expect(applyPersonaModel(step(TaskType.TEXT, 'gemini-3-flash-preview'), reviewer).model).toBe('gemini-3-pro-preview');
+    expect(applyPersonaModel(step(TaskType.IMAGE, 'gemini-2.5-flash-image'), reviewer).model).toBe('gemini-2.5-flash-image');
+    expect(applyPersonaModel(step(TaskType.TEXT, 'gemini-3-flash-preview', { isManual: true }), reviewer).model).toBe('gemini-3-flash-preview');
+  });
+
+  it('applies the voice and system instruction to their task types', () => {
+    expect(applyPersonaVoice(TaskType.AUDIO, {}, reviewer)).toEqual({ voiceName: 'Kore' });
+    expect(applyPersonaVoice(TaskType.AUDIO, { voiceName: 'Puck' }, reviewer)).toEqual({ voiceName: 'Puck' });
+    expect(getSystemInstruction(TaskType.SEARCH, reviewer)).toBe('You review code tersely.');
+    expect(getSystemInstruction(TaskType.IMAGE, reviewer)).toBeUndefined();
+  });
+});
+
+describe('library sharing', () => {
+  it('round-trips personas and templates', () => {
+    const templates = [{ id: 't1', name: 'Review', body: 'Review {{code}}' }];
+    expect(parseLibraryJson(toLibraryJson([reviewer], templates))).toEqual({ personas: [reviewer], templates });
+  });
+
+  it('drops unknown models and invalid entries, and rejects other files', () => {
+    const library = parseLibraryJson(JSON.stringify({
+      kind: 'nexus-library',
+      version: 1,
+      personas: [{ ...reviewer, preferredModel: 'gpt-9' }, { name: 'No instruction' }],
+      templates: 'nope',
+    }));
+    expect(library.personas).toHaveLength(1);
+    expect(library.personas[0].preferredModel).toBeUndefined();
+    expect(library.templates).toEqual([]);
+    expect(() => parseLibraryJson('{"kind": "nexus-conversation"}')).toThrow(/isn't a persona\/template library/);
+  });
+});
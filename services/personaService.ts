@@ -0,0 +1,161 @@
+import { GenerationSettings, OrchestrationDecision, Persona, PromptTemplate, TaskType } from "../types";
+import { getModel } from "./modelRegistry";
+
+/**
+ * PERSONAS & PROMPT TEMPLATES
+ * Both live in localStorage and can be shared as a JSON "library" file.
+ * A persona shapes execution only: its system instruction goes to TEXT/SEARCH
+ * calls, its voice to AUDIO, and its preferred model replaces the routed one
+ * wherever that model supports the task. The orchestrator is unaffected.
+ */
+
+const PERSONAS_STORAGE_KEY = 'nexus-personas';
+const ACTIVE_PERSONA_STORAGE_KEY = 'nexus-active-persona';
+const TEMPLATES_STORAGE_KEY = 'nexus-prompt-templates';
+
+const LIBRARY_KIND = 'nexus-library';
+const LIBRARY_VERSION = 1;
+
+// Built in, always available and not editable: the app's original behaviour
+export const DEFAULT_PERSONA: Persona = {
+  id: 'nexus',
+  name: 'Nexus',
+  systemInstruction: '',
+  greeting: "I'm Nexus, your AI Orchestrator. Tell me what you need, and I'll route it to the perfect Gemini model—whether it's generating 4K images, Veo videos, speech, or complex reasoning.",
+};
+
+export const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const readList = <T>(key: string): T[] => {
+  try {
+    const value = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(value) ? value : [];
+  } catch {
+    return [];
+  }
+};
+
+// User personas only; DEFAULT_PERSONA is prepended by listPersonas
+export const loadPersonas = (): Persona[] => readList<Persona>(PERSONAS_STORAGE_KEY);
+
+export const savePersonas = (personas: Persona[]) => {
+  localStorage.setItem(PERSONAS_STORAGE_KEY, JSON.stringify(personas.filter(p => p.id !== DEFAULT_PERSONA.id)));
+};
+
+export const listPersonas = (personas: Persona[]): Persona[] => [DEFAULT_PERSONA, ...personas];
+
+export const loadActivePersonaId = (): string =>
+  localStorage.getItem(ACTIVE_PERSONA_STORAGE_KEY) || DEFAULT_PERSONA.id;
+
+export const saveActivePersonaId = (id: string) => {
+  localStorage.setItem(ACTIVE_PERSONA_STORAGE_KEY, id);
+};
+
+export const findPersona = (personas: Persona[], id: string): Persona =>
+  personas.find(p => p.id === id) || DEFAULT_PERSONA;
+
+export const getGreeting = (persona: Persona): string =>
+  persona.greeting?.trim() || `I'm ${persona.name}. What can I do for you?`;
+
+// Swaps in the persona's model when it can run this step; explicit user choices are kept
+export const applyPersonaModel = (step: OrchestrationDecision, persona: Persona): OrchestrationDecision => {
+  if (step.isManual || !persona.preferredModel || persona.preferredModel === step.model) return step;
+  const model = getModel(persona.preferredModel);
+  if (!model?.taskTypes.includes(step.type)) return step;
+  return { ...step, model: model.id, requiresPaidKey: step.requiresPaidKey || model.requiresPaidKey };
+};
+
+// The persona's voice fills in for AUDIO when no voice was chosen in settings
+export const applyPersonaVoice = (type: TaskType, settings: GenerationSettings, persona: Persona): GenerationSettings =>
+  type === TaskType.AUDIO && persona.defaultVoice && !settings.voiceName
+    ? { ...settings, voiceName: persona.defaultVoice }
+    : settings;
+
+export const getSystemInstruction = (type: TaskType, persona: Persona): string | undefined =>
+  (type === TaskType.TEXT || type === TaskType.SEARCH) && persona.systemInstruction.trim()
+    ? persona.systemInstruction.trim()
+    : undefined;
+
+// --- Prompt templates ---
+
+export const loadTemplates = (): PromptTemplate[] => readList<PromptTemplate>(TEMPLATES_STORAGE_KEY);
+
+export const saveTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// Placeholder names in order of first appearance
+export const getTemplateVariables = (body: string): string[] =>
+  [...new Set([...body.matchAll(VARIABLE_PATTERN)].map(m => m[1]))];
+
+// Unfilled variables are left as-is so they stay visible in the composer
+export const fillTemplate = (body: string, values: Record<string, string>): string =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name) => values[name]?.trim() ? values[name] : placeholder);
+
+// --- Sharing ---
+
+export interface LibraryExport {
+  kind: typeof LIBRARY_KIND;
+  version: number;
+  personas: Persona[];
+  templates: PromptTemplate[];
+}
+
+export const toLibraryJson = (personas: Persona[], templates: PromptTemplate[]): string => {
+  const data: LibraryExport = {
+    kind: LIBRARY_KIND,
+    version: LIBRARY_VERSION,
+    personas: personas.filter(p => p.id !== DEFAULT_PERSONA.id),
+    templates,
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+const isPersona = (value: any): value is Persona =>
+  typeof value?.name === 'string' && typeof value?.systemInstruction === 'string';
+
+const isTemplate = (value: any): value is PromptTemplate =>
+  typeof value?.name === 'string' && typeof value?.body === 'string';
+
+/**
+ * Parses a shared library file. Invalid entries are skipped; throws a
+ * user-readable error if the file isn't a library at all.
+ */
+export const parseLibraryJson = (json: string): { personas: Persona[]; templates: PromptTemplate[] } => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+  if (data?.kind !== LIBRARY_KIND) {
+    throw new Error("This file isn't a persona/template library.");
+  }
+  if (Number(data.version) > LIBRARY_VERSION) {
+    throw new Error(`This library was made by a newer version (format ${data.version}); please update the app.`);
+  }
+
+  const personas = (Array.isArray(data.personas) ? data.personas : [])
+    .filter(isPersona)
+    .filter((p: Persona) => p.id !== DEFAULT_PERSONA.id)
+    .map((p: Persona) => ({
+      id: p.id || createId(),
+      name: p.name,
+      systemInstruction: p.systemInstruction,
+      preferredModel: getModel(p.preferredModel || '') ? p.preferredModel : undefined,
+      defaultVoice: p.defaultVoice || undefined,
+      greeting: p.greeting || undefined,
+    }));
+  const templates = (Array.isArray(data.templates) ? data.templates : [])
+    .filter(isTemplate)
+    .map((t: PromptTemplate) => ({ id: t.id || createId(), name: t.name, body: t.body }));
+  return { personas, templates };
+};
+
+// Imported items replace local ones with the same id (an updated copy of a shared item)
+export const mergeById = <T extends { id: string }>(existing: T[], incoming: T[]): T[] => [
+  ...existing.filter(item => !incoming.some(i => i.id === item.id)),
+  ...incoming,
+];
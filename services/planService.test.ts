@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { Attachment, OrchestrationDecision, TaskType } from '../types';
+import { getPlanSteps, resolveStepInput } from './planService';
+
+const attachment = (id: string, kind: Attachment['kind'] = 'image'): Attachment =>
+  ({ id, name: `${id}.png`, mimeType: 'image/png', kind, size: 3, data: 'AAA' });
+
+const step = (type: TaskType, extra: Partial<OrchestrationDecision> = {}): OrchestrationDecision =>
+  ({ type, model: 'm', reasoning: '', refinedPrompt: 'Do the thing', requiresPaidKey: false, ...extra });
+
+describe('getPlanSteps', () => {
+  it('treats a single decision as a one-step plan', () => {
+    const single = step(TaskType.TEXT);
+    expect(getPlanSteps(single)).toEqual([single]);
+    expect(getPlanSteps({ ...single, steps: [step(TaskType.TEXT), step(TaskType.AUDIO)] })).toHaveLength(2);
+  });
+});
+
+describe('resolveStepInput', () => {
+  const photo = attachment('photo');
+  const previous = attachment('previous');
+
+  it("gives independent steps the user's own files", () => {
+    expect(resolveStepInput(step(TaskType.TEXT), [], [photo])).toEqual({ prompt: 'Do the thing', attachments: [photo] });
+  });
+
+  it('adds the previous image to an edit only when no image was attached', () => {
+    const edit = step(TaskType.IMAGE, { usePreviousImage: true });
+    const notes = attachment('notes', 'document');
+
+    expect(resolveStepInput(edit, [], [notes], previous).attachments).toEqual([notes, previous]);
+    expect(resolveStepInput(edit, [], [photo], previous).attachments).toEqual([photo]);
+    expect(resolveStepInput(step(TaskType.IMAGE), [], [], previous).attachments).toEqual([]);
+  });
+
+  it('appends earlier text to the prompt and passes earlier images on', () => {
+    const outputs = [{ text: 'A poem about foxes.' }, { image: previous }];
+
+    expect(resolveStepInput(step(TaskType.IMAGE, { inputFromStep: 0 }), outputs, [photo]))
+      .toEqual({ prompt: 'Do the thing\n\nA poem about foxes.', attachments: [] });
+    expect(resolveStepInput(step(TaskType.VIDEO, { inputFromStep: 1 }), outputs, [photo]))
+      .toEqual({ prompt: 'Do the thing', attachments: [previous] });
+  });
+
+  it('hands TTS the earlier text verbatim', () => {
+    const outputs = [{ text: 'A poem about foxes.' }];
+    expect(resolveStepInput(step(TaskType.AUDIO, { inputFromStep: 0 }), outputs, []).prompt).toBe('A poem about foxes.');
+  });
+});
@@ -0,0 +1,34 @@
+import { Attachment, OrchestrationDecision, StepOutput, TaskType } from "../types";
+
+// A single-task decision is treated as a one-step plan
+export const getPlanSteps = (decision: OrchestrationDecision): OrchestrationDecision[] =>
+  decision.steps && decision.steps.length > 0 ? decision.steps : [decision];
+
+/**
+ * Builds the prompt and attachments for a plan step, wiring in the output of
+ * the step it depends on. Steps without a dependency get the user's own files,
+ * plus the last generated image when the step edits it and no image was attached.
+ */
+export const resolveStepInput = (
+  step: OrchestrationDecision,
+  outputs: StepOutput[],
+  userAttachments: Attachment[],
+  previousImage: Attachment | null = null
+): { prompt: string; attachments: Attachment[] } => {
+  const source = step.inputFromStep !== undefined ? outputs[step.inputFromStep] : undefined;
+  if (!source) {
+    const editsPrevious = step.usePreviousImage && previousImage && !userAttachments.some(a => a.kind === 'image');
+    return { prompt: step.refinedPrompt, attachments: editsPrevious ? [...userAttachments, previousImage] : userAttachments };
+  }
+
+  const attachments = source.image ? [source.image] : [];
+  if (!source.text) {
+    return { prompt: step.refinedPrompt, attachments };
+  }
+
+  // TTS reads its input verbatim, so it gets the earlier text on its own
+  if (step.type === TaskType.AUDIO) {
+    return { prompt: source.text, attachments };
+  }
+  return { prompt: `${step.refinedPrompt}\n\n${source.text}`, attachments };
+};
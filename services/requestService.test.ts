@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RequestError, classifyError, describeError, withRetry } from './requestService';
+
+const serverError = () => Object.assign(new Error('backend overloaded'), { status: 503 });
+
+describe('classifyError', () => {
+  it('maps SDK, fetch and abort errors onto kinds', () => {
+    expect(classifyError(Object.assign(new Error('x'), { status: 429 })).kind).toBe('quota');
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED')).kind).toBe('quota');
+    expect(classifyError(new Error('Response blocked: PROHIBITED_CONTENT')).kind).toBe('safety');
+    expect(classifyError(serverError()).kind).toBe('server');
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(classifyError(new DOMException('stop', 'AbortError')).kind).toBe('cancelled');
+    expect(classifyError(new Error('odd')).kind).toBe('unknown');
+  });
+
+  it('passes RequestErrors through and marks only transient kinds retryable', () => {
+    const original = new RequestError('timeout', 'slow');
+    expect(classifyError(original)).toBe(original);
+    expect(original.retryable).toBe(false);
+    expect(new RequestError('server', 'down').retryable).toBe(true);
+    expect(describeError(serverError())).toMatch(/temporarily unavailable/);
+    expect(describeError(new Error('odd'))).toBe('odd');
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries transient failures with exponential backoff', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const operation = vi.fn()
+      .mockRejectedValueOnce(serverError())
+      .mockRejectedValueOnce(serverError())
+      .mockResolvedValue('ok');
+
+    const result = withRetry(operation, { baseDelayMs: 100 });
+    await vi.advanceTimersByTimeAsync(99);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    // The second wait doubles
+    await vi.advanceTimersByTimeAsync(200);
+
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the retry limit and never retries permanent errors', async () => {
+    const transient = vi.fn().mockRejectedValue(serverError());
+    await expect(withRetry(transient, { retries: 2, baseDelayMs: 0 })).rejects.toMatchObject({ kind: 'server' });
+    expect(transient).toHaveBeenCalledTimes(3);
+
+    const permanent = vi.fn().mockRejectedValue(new Error('bad request'));
+    await expect(withRetry(permanent, { baseDelayMs: 0 })).rejects.toMatchObject({ kind: 'unknown' });
+    expect(permanent).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a timeout, even when the operation ignores its signal', async () => {
+    vi.useFakeTimers();
+    let operationSignal: AbortSignal | undefined;
+    const result = withRetry(signal => {
+      operationSignal = signal;
+      return new Promise(() => {});
+    }, { timeoutMs: 1000 });
+    const outcome = expect(result).rejects.toMatchObject({ kind: 'timeout' });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await outcome;
+    expect(operationSignal?.aborted).toBe(true);
+  });
+
+  it('reports cancellation, including during the backoff wait', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(serverError());
+    const result = withRetry(operation, { signal: controller.signal, timeoutMs: 60_000, baseDelayMs: 5000 });
+    const outcome = expect(result).rejects.toMatchObject({ kind: 'cancelled' });
+
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await outcome;
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,158 @@
+import { TaskType } from "../types";
+
+/**
+ * SHARED REQUEST WRAPPER
+ * Retries transient failures with exponential backoff, enforces per-task
+ * timeouts and propagates cancellation from the UI.
+ */
+
+export type RequestErrorKind = 'quota' | 'safety' | 'network' | 'server' | 'timeout' | 'cancelled' | 'unknown';
+
+export class RequestError extends Error {
+  kind: RequestErrorKind;
+  retryable: boolean;
+  cause?: unknown;
+
+  constructor(kind: RequestErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'RequestError';
+    this.kind = kind;
+    this.retryable = kind === 'quota' || kind === 'network' || kind === 'server';
+    this.cause = cause;
+  }
+}
+
+export const ORCHESTRATION_TIMEOUT_MS = 30_000;
+
+// A single Veo status check (the render itself is bounded by TASK_TIMEOUTS_MS)
+export const VIDEO_POLL_TIMEOUT_MS = 30_000;
+
+// Upper bound for each task, including retries (and Veo polling for VIDEO)
+export const TASK_TIMEOUTS_MS: Record<TaskType, number> = {
+  [TaskType.TEXT]: 120_000,
+  [TaskType.SEARCH]: 120_000,
+  [TaskType.IMAGE]: 120_000,
+  [TaskType.AUDIO]: 60_000,
+  [TaskType.VIDEO]: 10 * 60_000,
+};
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  baseDelayMs?: number;
+}
+
+const USER_MESSAGES: Record<RequestErrorKind, string> = {
+  quota: "Rate limit or quota exceeded. Please wait a moment and try again.",
+  safety: "The request was blocked by safety filters. Try rephrasing your prompt.",
+  network: "Network error. Check your connection and try again.",
+  server: "The model service is temporarily unavailable. Please try again shortly.",
+  timeout: "The request took too long and was stopped.",
+  cancelled: "Request cancelled.",
+  unknown: "An unexpected error occurred.",
+};
+
+// Maps SDK, fetch and abort errors onto a RequestError
+export const classifyError = (err: any): RequestError => {
+  if (err instanceof RequestError) return err;
+
+  const message: string = err?.message || String(err);
+  const status: number | undefined = err?.status ?? err?.code;
+
+  if (err?.name === 'AbortError') {
+    return new RequestError('cancelled', USER_MESSAGES.cancelled, err);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new RequestError('quota', USER_MESSAGES.quota, err);
+  }
+  if (/safety|blocked|PROHIBITED_CONTENT|responsible ai/i.test(message)) {
+    return new RequestError('safety', USER_MESSAGES.safety, err);
+  }
+  if ((typeof status === 'number' && status >= 500) || /UNAVAILABLE|INTERNAL|overloaded/i.test(message)) {
+    return new RequestError('server', USER_MESSAGES.server, err);
+  }
+  if (err instanceof TypeError || /network|failed to fetch|ECONNRESET/i.test(message)) {
+    return new RequestError('network', USER_MESSAGES.network, err);
+  }
+  return new RequestError('unknown', message || USER_MESSAGES.unknown, err);
+};
+
+// User-facing message for any error thrown by the service layer
+export const describeError = (err: any): string => {
+  const classified = classifyError(err);
+  return classified.kind === 'unknown' ? classified.message : USER_MESSAGES[classified.kind];
+};
+
+// Resolves after `ms`, rejects early if the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Rejects as soon as the signal aborts, even if the SDK call ignores it
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+/**
+ * Runs `operation` with retries on quota/network/5xx errors.
+ * The operation receives a signal that fires on cancellation or timeout.
+ */
+export const withRetry = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs, retries = 3, baseDelayMs = 1000 }: RequestOptions = {}
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const timer = timeoutMs
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+
+  const abortError = () => timedOut
+    ? new RequestError('timeout', USER_MESSAGES.timeout)
+    : new RequestError('cancelled', USER_MESSAGES.cancelled);
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await raceAbort(operation(controller.signal), controller.signal);
+      } catch (err) {
+        if (controller.signal.aborted) throw abortError();
+
+        const classified = classifyError(err);
+        if (!classified.retryable || attempt >= retries) throw classified;
+
+        // Exponential backoff with a little jitter
+        const delay = baseDelayMs * 2 ** attempt + Math.random() * 250;
+        await sleep(delay, controller.signal).catch(() => {
+          throw abortError();
+        });
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { OrchestrationDecision, TaskType } from '../types';
+import { applyRoutingOverride, fallbackRoute, validateDecision, validatePlan } from './routingService';
+
+describe('fallbackRoute', () => {
+  it('routes on keywords, with TEXT as the catch-all', () => {
+    expect(fallbackRoute('Animate a paper boat', 'router down')).toMatchObject({
+      type: TaskType.VIDEO,
+      model: 'veo-3.1-fast-generate-preview',
+      requiresPaidKey: true,
+      isFallback: true,
+      fallbackReason: 'router down',
+    });
+    expect(fallbackRoute('Read it aloud please', 'x').type).toBe(TaskType.AUDIO);
+    expect(fallbackRoute("What's the weather in Oslo?", 'x').type).toBe(TaskType.SEARCH);
+    expect(fallbackRoute('Explain monads', 'x')).toMatchObject({ type: TaskType.TEXT, model: 'gemini-3-flash-preview' });
+  });
+
+  it('picks a high-resolution image model when asked for quality', () => {
+    expect(fallbackRoute('Draw a fox', 'x').model).toBe('gemini-2.5-flash-image');
+    expect(fallbackRoute('Draw a fox in 4K', 'x').model).toBe('gemini-3-pro-image-preview');
+  });
+});
+
+describe('validateDecision', () => {
+  it('rejects unknown task types and replaces unregistered models', () => {
+    expect(validateDecision(null, 'hi')).toBeNull();
+    expect(validateDecision({ type: 'DANCE' }, 'hi')).toBeNull();
+
+    const decision = validateDecision({ type: TaskType.IMAGE, model: 'veo-3.1-fast-generate-preview', refinedPrompt: ' ' }, 'a cat');
+    expect(decision).toMatchObject({ model: 'gemini-2.5-flash-image', refinedPrompt: 'a cat', requiresPaidKey: false });
+    expect(decision?.reasoning).toMatch(/Unsupported model/);
+  });
+
+  it('keeps usePreviousImage only for image and video tasks', () => {
+    expect(validateDecision({ type: TaskType.IMAGE, model: 'gemini-2.5-flash-image', usePreviousImage: true }, 'x')?.usePreviousImage).toBe(true);
+    expect(validateDecision({ type: TaskType.TEXT, model: 'gemini-3-flash-preview', usePreviousImage: true }, 'x')?.usePreviousImage).toBeUndefined();
+  });
+});
+
+describe('validatePlan', () => {
+  const step = (type: TaskType, model: string, extra = {}) => ({ type, model, refinedPrompt: type, ...extra });
+
+  it('keeps a plan whose steps only reference earlier steps', () => {
+    const plan = validatePlan({
+      ...step(TaskType.TEXT, 'gemini-3-flash-preview'),
+      steps: [step(TaskType.TEXT, 'gemini-3-flash-preview'), step(TaskType.VIDEO, 'veo-3.1-fast-generate-preview', { inputFromStep: 0 })],
+    }, 'x');
+
+    expect(plan?.steps).toHaveLength(2);
+    expect(plan?.steps?.[1].inputFromStep).toBe(0);
+    expect(plan?.requiresPaidKey).toBe(true);
+  });
+
+  it('falls back to the single decision when a step references itself or a later step', () => {
+    const plan = validatePlan({
+      ...step(TaskType.TEXT, 'gemini-3-flash-preview'),
+      steps: [step(TaskType.TEXT, 'gemini-3-flash-preview', { inputFromStep: 1 }), step(TaskType.IMAGE, 'gemini-2.5-flash-image')],
+    }, 'x');
+
+    expect(plan?.steps).toBeUndefined();
+    expect(plan?.type).toBe(TaskType.TEXT);
+  });
+});
+
+describe('applyRoutingOverride', () => {
+  const decision: OrchestrationDecision = {
+    type: TaskType.TEXT,
+    model: 'gemini-3-flash-preview',
+    reasoning: 'chat',
+    refinedPrompt: 'a fox',
+    requiresPaidKey: false,
+    steps: [
+      { type: TaskType.TEXT, model: 'gemini-3-flash-preview', reasoning: '', refinedPrompt: 'a', requiresPaidKey: false },
+      { type: TaskType.IMAGE, model: 'gemini-2.5-flash-image', reasoning: '', refinedPrompt: 'b', requiresPaidKey: false, inputFromStep: 0 },
+    ],
+  };
+
+  it('leaves the decision alone without an override', () => {
+    expect(applyRoutingOverride(decision, null)).toBe(decision);
+    expect(applyRoutingOverride(decision, {})).toBe(decision);
+  });
+
+  it('forces the model, infers its task type and collapses plans', () => {
+    const forced = applyRoutingOverride(decision, { model: 'gemini-3-pro-image-preview' });
+
+    expect(forced).toMatchObject({ type: TaskType.IMAGE, model: 'gemini-3-pro-image-preview', requiresPaidKey: true, isManual: true });
+    expect(forced.steps).toBeUndefined();
+  });
+
+  it("replaces a model that can't do the forced task type", () => {
+    expect(applyRoutingOverride(decision, { type: TaskType.VIDEO }).model).toBe('veo-3.1-fast-generate-preview');
+    expect(applyRoutingOverride(decision, { type: TaskType.AUDIO, model: 'gemini-3-flash-preview' }).model).toBe('gemini-2.5-flash-preview-tts');
+  });
+});
@@ -0,0 +1,136 @@
+import { TaskType, OrchestrationDecision, RoutingOverride } from "../types";
+import { getDefaultModel, getModel, getModelsForTask } from "./modelRegistry";
+import { validateSpeakers } from "./speechService";
+
+// Checked in order - the first matching task wins, TEXT is the catch-all
+const KEYWORD_RULES: Array<{ type: TaskType; pattern: RegExp }> = [
+  { type: TaskType.VIDEO, pattern: /\b(video|movie|clip|animate|animation|footage)\b/i },
+  { type: TaskType.IMAGE, pattern: /\b(draw|paint|sketch|image|picture|photo|illustration|logo|wallpaper)\b/i },
+  { type: TaskType.AUDIO, pattern: /\b(say|speak|read (it )?aloud|narrate|pronounce|tts|voice|audio)\b/i },
+  { type: TaskType.SEARCH, pattern: /\b(news|latest|today|current|weather|price|score|this week)\b/i },
+];
+
+const HIGH_QUALITY_PATTERN = /\b(hd|4k|high[- ]quality|high[- ]res(olution)?)\b/i;
+
+const requirePaidKey = (model: string) => getModel(model)?.requiresPaidKey ?? false;
+
+/**
+ * Deterministic keyword router used when the LLM router fails or returns
+ * something unusable. Always produces a decision for a registered model.
+ */
+export const fallbackRoute = (userPrompt: string, reason: string): OrchestrationDecision => {
+  const type = KEYWORD_RULES.find(rule => rule.pattern.test(userPrompt))?.type ?? TaskType.TEXT;
+
+  let model = getDefaultModel(type)?.id ?? getDefaultModel(TaskType.TEXT)!.id;
+  if (type === TaskType.IMAGE && HIGH_QUALITY_PATTERN.test(userPrompt)) {
+    const hiRes = getModelsForTask(type).find(m => m.capabilities.includes('high-resolution'));
+    if (hiRes) model = hiRes.id;
+  }
+
+  return {
+    type,
+    model,
+    reasoning: `Keyword fallback routed this to ${type}.`,
+    refinedPrompt: userPrompt,
+    requiresPaidKey: requirePaidKey(model),
+    isFallback: true,
+    fallbackReason: reason,
+  };
+};
+
+/**
+ * Checks a raw orchestrator result. Returns null when the task type is unusable;
+ * a model that isn't registered for the task type is replaced by that task's default.
+ */
+export const validateDecision = (raw: any, userPrompt: string): OrchestrationDecision | null => {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const type = raw.type as TaskType;
+  if (!Object.values(TaskType).includes(type)) return null;
+
+  let model: string | undefined = typeof raw.model === 'string' ? raw.model : undefined;
+  let reasoning = typeof raw.reasoning === 'string' ? raw.reasoning : '';
+  if (!model || !getModel(model)?.taskTypes.includes(type)) {
+    const replacement = getDefaultModel(type);
+    if (!replacement) return null;
+    reasoning = `${reasoning} (Unsupported model "${model ?? 'none'}" replaced with ${replacement.id}.)`.trim();
+    model = replacement.id;
+  }
+
+  const refinedPrompt = typeof raw.refinedPrompt === 'string' && raw.refinedPrompt.trim()
+    ? raw.refinedPrompt
+    : userPrompt;
+
+  const speakers = type === TaskType.AUDIO ? validateSpeakers(raw.speakers, model) : undefined;
+  const usePreviousImage = raw.usePreviousImage === true && (type === TaskType.IMAGE || type === TaskType.VIDEO);
+
+  return {
+    type,
+    model,
+    reasoning,
+    refinedPrompt,
+    requiresPaidKey: requirePaidKey(model),
+    ...(speakers && { speakers }),
+    ...(usePreviousImage && { usePreviousImage }),
+  };
+};
+
+export const MAX_PLAN_STEPS = 4;
+
+/**
+ * Validates an orchestrator result that may contain a multi-step plan.
+ * A plan is only kept if every step is valid and only references earlier steps;
+ * otherwise the top-level single decision is used.
+ */
+export const validatePlan = (raw: any, userPrompt: string): OrchestrationDecision | null => {
+  const decision = validateDecision(raw, userPrompt);
+  if (!decision || !Array.isArray(raw.steps) || raw.steps.length < 2) return decision;
+
+  const steps: OrchestrationDecision[] = [];
+  for (const rawStep of raw.steps.slice(0, MAX_PLAN_STEPS)) {
+    const step = validateDecision(rawStep, userPrompt);
+    if (!step) return decision;
+
+    const from = rawStep.inputFromStep;
+    if (typeof from === 'number') {
+      if (!Number.isInteger(from) || from < 0 || from >= steps.length) return decision;
+      step.inputFromStep = from;
+    }
+    steps.push(step);
+  }
+
+  return {
+    ...steps[0],
+    reasoning: decision.reasoning,
+    requiresPaidKey: steps.some(s => s.requiresPaidKey),
+    steps,
+  };
+};
+
+/**
+ * Forces the user's explicit task type and/or model onto a decision.
+ * Plans collapse to a single step, and a model that can't do the task is
+ * replaced by that task's default.
+ */
+export const applyRoutingOverride = (decision: OrchestrationDecision, routing?: RoutingOverride | null): OrchestrationDecision => {
+  if (!routing?.type && !routing?.model) return decision;
+
+  const type = routing.type ?? getModel(routing.model!)?.taskTypes[0] ?? decision.type;
+  let model = routing.model ?? decision.model;
+  if (!getModel(model)?.taskTypes.includes(type)) {
+    model = getDefaultModel(type)?.id ?? model;
+  }
+
+  const { steps, inputFromStep, speakers, usePreviousImage, ...single } = decision;
+  // Speakers only carry over to a TTS model that can voice them
+  const keptSpeakers = type === TaskType.AUDIO ? validateSpeakers(speakers, model) : undefined;
+  return {
+    ...single,
+    type,
+    model,
+    requiresPaidKey: requirePaidKey(model),
+    isManual: true,
+    ...(keptSpeakers && { speakers: keptSpeakers }),
+    ...(usePreviousImage && (type === TaskType.IMAGE || type === TaskType.VIDEO) && { usePreviousImage }),
+  };
+};
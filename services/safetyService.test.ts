@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { BlockedReason, FinishReason, HarmCategory, HarmProbability } from '@google/genai';
+import { buildGenerationConfig, resolveSettings } from './settingsService';
+import { describeBlock, getSafetyInfo } from './safetyService';
+
+describe('getSafetyInfo', () => {
+  it('reports a blocked prompt with its flagged categories', () => {
+    const safety = getSafetyInfo({
+      promptFeedback: {
+        blockReason: BlockedReason.SAFETY,
+        safetyRatings: [
+          { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, probability: HarmProbability.HIGH, blocked: true },
+          { category: HarmCategory.HARM_CATEGORY_HARASSMENT, probability: HarmProbability.NEGLIGIBLE },
+        ],
+      },
+      candidates: [],
+    });
+
+    expect(safety).toEqual({
+      blocked: true,
+      reason: 'SAFETY',
+      source: 'prompt',
+      message: undefined,
+      ratings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH', blocked: true }],
+    });
+    expect(describeBlock(safety!)).toBe('Your prompt was blocked because it was flagged by the safety filters (dangerous content).');
+  });
+
+  it('tells a blocked response from one cut short', () => {
+    const blocked = getSafetyInfo({ candidates: [{ finishReason: FinishReason.IMAGE_SAFETY, content: { parts: [] } }] });
+    const partial = getSafetyInfo({ candidates: [{ finishReason: FinishReason.SAFETY, content: { parts: [{ text: 'Half an' }] } }] });
+
+    expect(blocked).toMatchObject({ blocked: true, reason: 'IMAGE_SAFETY', source: 'response' });
+    expect(partial).toMatchObject({ blocked: false });
+    expect(describeBlock(partial!)).toMatch(/^The response was cut short because/);
+  });
+
+  it('ignores responses that finished normally', () => {
+    expect(getSafetyInfo({ candidates: [{ finishReason: FinishReason.STOP, content: { parts: [{ text: 'Hi' }] } }] })).toBeNull();
+    expect(getSafetyInfo({})).toBeNull();
+  });
+});
+
+describe('safety thresholds', () => {
+  it('applies the threshold to every adjustable category', () => {
+    const { settings } = resolveSettings('gemini-3-flash-preview', { safetyThreshold: 'BLOCK_ONLY_HIGH' });
+    const config = buildGenerationConfig('gemini-3-flash-preview', settings);
+
+    expect(config.safetySettings).toHaveLength(4);
+    expect(config.safetySettings.every((s: any) => s.threshold === 'BLOCK_ONLY_HIGH')).toBe(true);
+  });
+
+  it('drops the threshold for models without safety settings', () => {
+    const { settings, warnings } = resolveSettings('veo-3.1-fast-generate-preview', { safetyThreshold: 'BLOCK_NONE' });
+
+    expect(settings.safetyThreshold).toBeUndefined();
+    expect(warnings).toHaveLength(1);
+  });
+});
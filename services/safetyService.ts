@@ -0,0 +1,105 @@
+import { GenerateContentResponse, HarmBlockThreshold, HarmCategory } from "@google/genai";
+import { SafetyInfo } from "../types";
+import { RequestError } from "./requestService";
+
+/**
+ * SAFETY FILTERS
+ * Reads why Gemini blocked a prompt or cut a response short (promptFeedback,
+ * finishReason, safetyRatings) and builds the per-task safetySettings.
+ */
+
+export const SAFETY_THRESHOLD_LABELS: Record<string, string> = {
+  BLOCK_LOW_AND_ABOVE: 'Strict (block low and above)',
+  BLOCK_MEDIUM_AND_ABOVE: 'Default (block medium and above)',
+  BLOCK_ONLY_HIGH: 'Relaxed (block only high)',
+  BLOCK_NONE: 'Block none',
+  OFF: 'Off',
+};
+
+// The categories the Gemini API lets callers adjust
+const HARM_CATEGORIES = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+];
+
+export const buildSafetySettings = (threshold: string) =>
+  HARM_CATEGORIES.map(category => ({ category, threshold: threshold as HarmBlockThreshold }));
+
+const CATEGORY_LABELS: Record<string, string> = {
+  HARM_CATEGORY_HARASSMENT: 'harassment',
+  HARM_CATEGORY_HATE_SPEECH: 'hate speech',
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: 'sexually explicit content',
+  HARM_CATEGORY_DANGEROUS_CONTENT: 'dangerous content',
+  HARM_CATEGORY_CIVIC_INTEGRITY: 'civic integrity',
+};
+
+const REASON_LABELS: Record<string, string> = {
+  SAFETY: 'it was flagged by the safety filters',
+  PROHIBITED_CONTENT: 'it may contain prohibited content',
+  BLOCKLIST: 'it contains blocked terms',
+  SPII: 'it may contain sensitive personal information',
+  IMAGE_SAFETY: 'the generated image was flagged by the safety filters',
+  IMAGE_PROHIBITED_CONTENT: 'the generated image may contain prohibited content',
+  RECITATION: 'it closely recited copyrighted material',
+  IMAGE_RECITATION: 'the generated image closely matched copyrighted material',
+};
+
+export const getCategoryLabel = (category: string) =>
+  CATEGORY_LABELS[category] || category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+/**
+ * Returns why the prompt or response was blocked, or null if it wasn't.
+ * A prompt block (promptFeedback) wins over the candidate's finishReason.
+ */
+export const getSafetyInfo = (response: Pick<GenerateContentResponse, 'promptFeedback' | 'candidates'>): SafetyInfo | null => {
+  const feedback = response.promptFeedback;
+  const candidate = response.candidates?.[0];
+
+  const toRatings = (ratings: any[] = []) => ratings
+    .filter(r => r.blocked || (r.probability && r.probability !== 'NEGLIGIBLE'))
+    .map(r => ({ category: String(r.category), probability: String(r.probability || 'UNKNOWN'), ...(r.blocked ? { blocked: true } : {}) }));
+
+  if (feedback?.blockReason) {
+    return {
+      blocked: true,
+      reason: String(feedback.blockReason),
+      source: 'prompt',
+      message: feedback.blockReasonMessage,
+      ratings: toRatings(feedback.safetyRatings),
+    };
+  }
+
+  const finishReason = candidate?.finishReason ? String(candidate.finishReason) : '';
+  if (finishReason in REASON_LABELS) {
+    const hasOutput = (candidate?.content?.parts || []).some(p => (p.text && !p.thought) || p.inlineData?.data);
+    return {
+      blocked: !hasOutput,
+      reason: finishReason,
+      source: 'response',
+      message: candidate?.finishMessage,
+      ratings: toRatings(candidate?.safetyRatings),
+    };
+  }
+  return null;
+};
+
+// "Blocked because it was flagged by the safety filters (dangerous content)."
+export const describeBlock = (safety: SafetyInfo): string => {
+  const subject = safety.source === 'prompt' ? 'Your prompt was blocked' : safety.blocked ? 'The response was blocked' : 'The response was cut short';
+  const reason = REASON_LABELS[safety.reason] || `of ${safety.reason.toLowerCase().replace(/_/g, ' ')}`;
+  const categories = safety.ratings.filter(r => r.blocked).map(r => getCategoryLabel(r.category));
+  return `${subject} because ${reason}${categories.length > 0 ? ` (${categories.join(', ')})` : ''}.`;
+};
+
+// Thrown by the image and speech handlers, which have nothing to show without output
+export class SafetyBlockedError extends RequestError {
+  safety: SafetyInfo;
+
+  constructor(safety: SafetyInfo) {
+    super('safety', describeBlock(safety));
+    this.name = 'SafetyBlockedError';
+    this.safety = safety;
+  }
+}
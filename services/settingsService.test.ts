@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { TaskType } from '../types';
+import { getModel } from './modelRegistry';
+import { buildGenerationConfig, mergeSettings, resolveSettings } from './settingsService';
+
+const VEO = 'veo-3.1-fast-generate-preview';
+
+describe('mergeSettings', () => {
+  it('lets a per-message override win and drops cleared fields', () => {
+    const defaults = { [TaskType.IMAGE]: { aspectRatio: '16:9', imageSize: '2K', numberOfOutputs: 2 } };
+    const override = { [TaskType.IMAGE]: { aspectRatio: '1:1', imageSize: '' } };
+
+    expect(mergeSettings(TaskType.IMAGE, defaults, override)).toEqual({ aspectRatio: '1:1', numberOfOutputs: 2 });
+    expect(mergeSettings(TaskType.VIDEO, defaults, override)).toEqual({});
+    expect(mergeSettings(TaskType.IMAGE, defaults, null)).toEqual(defaults[TaskType.IMAGE]);
+  });
+});
+
+describe('resolveSettings', () => {
+  it('drops values the model does not support and says so', () => {
+    const { settings, warnings } = resolveSettings('gemini-2.5-flash-image', { aspectRatio: '16:9', imageSize: '4K' });
+
+    expect(settings).toEqual({ aspectRatio: '16:9' });
+    expect(warnings).toEqual([expect.stringMatching(/Image size "4K" isn't supported/)]);
+  });
+
+  it('clamps output counts and thinking budgets to the model limits', () => {
+    expect(resolveSettings(VEO, { numberOfOutputs: 3 })).toEqual({
+      settings: { numberOfOutputs: 1 },
+      warnings: [expect.stringMatching(/at most 1 output/)],
+    });
+    expect(resolveSettings('gemini-3-pro-preview', { thinkingBudget: 10 }).settings).toEqual({ thinkingBudget: 128 });
+    expect(resolveSettings('gemini-2.5-flash-image', { thinkingBudget: 512 })).toEqual({
+      settings: {},
+      warnings: [expect.stringMatching(/doesn't support a thinking budget/)],
+    });
+  });
+
+  it('only allows Veo 1080p together with an 8 second clip', () => {
+    const tooShort = resolveSettings(VEO, { videoResolution: '1080p', durationSeconds: 4 });
+    expect(tooShort.settings).toEqual({ durationSeconds: 4 });
+    expect(tooShort.warnings).toEqual([expect.stringMatching(/"1080p" needs a duration of 8s/)]);
+
+    expect(resolveSettings(VEO, { videoResolution: '1080p', durationSeconds: 8 })).toEqual({
+      settings: { videoResolution: '1080p', durationSeconds: 8 },
+      warnings: [],
+    });
+    // Without a duration Veo renders its 8 second default
+    expect(resolveSettings(VEO, { videoResolution: '1080p' }).warnings).toEqual([]);
+    expect(resolveSettings(VEO, { videoResolution: '720p', durationSeconds: 4 }).warnings).toEqual([]);
+  });
+});
+
+describe('buildGenerationConfig', () => {
+  it('maps video settings onto the Veo config without touching registry defaults', () => {
+    const config = buildGenerationConfig(VEO, { videoResolution: '1080p', aspectRatio: '9:16', numberOfOutputs: 1 });
+
+    expect(config).toEqual({ numberOfVideos: 1, resolution: '1080p', aspectRatio: '9:16', durationSeconds: 8 });
+    expect(getModel(VEO)!.defaultConfig.resolution).toBe('720p');
+  });
+
+  it('nests image settings and keeps default thinking settings for text', () => {
+    expect(buildGenerationConfig('gemini-3-pro-image-preview', { aspectRatio: '4:3', imageSize: '2K' }).imageConfig)
+      .toEqual(expect.objectContaining({ aspectRatio: '4:3', imageSize: '2K' }));
+    expect(buildGenerationConfig('gemini-3-pro-preview', {}).thinkingConfig).toEqual({ thinkingBudget: 1024 });
+    expect(buildGenerationConfig('gemini-3-pro-preview', { thinkingBudget: 4096 }).thinkingConfig).toEqual({ thinkingBudget: 4096 });
+  });
+
+  it('adds safety settings and the TTS voice when set', () => {
+    const config = buildGenerationConfig('gemini-2.5-flash-preview-tts', { voiceName: 'Kore', safetyThreshold: 'BLOCK_ONLY_HIGH' });
+
+    expect(config.speechConfig.voiceConfig.prebuiltVoiceConfig.voiceName).toBe('Kore');
+    expect(config.safetySettings.every((s: { threshold: string }) => s.threshold === 'BLOCK_ONLY_HIGH')).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+import { GenerationSettings, ModelSettingsSupport, TaskSettings, TaskType } from "../types";
+import { getModel, getModelsForTask } from "./modelRegistry";
+import { SAFETY_THRESHOLD_LABELS, buildSafetySettings } from "./safetyService";
+
+const SETTINGS_STORAGE_KEY = 'nexus-generation-settings';
+
+// Which settings are meaningful for each task type (drives the settings panel)
+export const TASK_SETTING_FIELDS: Record<TaskType, Array<keyof GenerationSettings>> = {
+  [TaskType.TEXT]: ['thinkingBudget', 'safetyThreshold'],
+  [TaskType.SEARCH]: ['thinkingBudget', 'safetyThreshold'],
+  [TaskType.IMAGE]: ['aspectRatio', 'imageSize', 'numberOfOutputs', 'safetyThreshold'],
+  [TaskType.VIDEO]: ['aspectRatio', 'videoResolution', 'durationSeconds'],
+  [TaskType.AUDIO]: ['voiceName', 'safetyThreshold'],
+};
+
+export const loadTaskSettings = (): TaskSettings => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveTaskSettings = (settings: TaskSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Per-message overrides win over the saved defaults for that task type
+export const mergeSettings = (type: TaskType, defaults: TaskSettings, override?: TaskSettings | null): GenerationSettings => {
+  const merged: GenerationSettings = { ...defaults[type], ...override?.[type] };
+  // Drop cleared fields so they fall back to model defaults
+  (Object.keys(merged) as Array<keyof GenerationSettings>).forEach(key => {
+    if (merged[key] === undefined || merged[key] === '') delete merged[key];
+  });
+  return merged;
+};
+
+/**
+ * Checks requested settings against what the model supports. Unsupported values
+ * are dropped (numbers are clamped) and reported as warnings.
+ */
+export const resolveSettings = (modelId: string, requested: GenerationSettings) => {
+  const model = getModel(modelId);
+  const support = model?.settings || {};
+  const settings: GenerationSettings = {};
+  const warnings: string[] = [];
+
+  const pick = <K extends keyof GenerationSettings>(key: K, allowed: Array<GenerationSettings[K]> | undefined, label: string) => {
+    const value = requested[key];
+    if (value === undefined) return;
+    if (allowed?.includes(value)) {
+      settings[key] = value;
+    } else {
+      warnings.push(`${label} "${value}" isn't supported by ${modelId}; using the default.`);
+    }
+  };
+
+  pick('aspectRatio', support.aspectRatios, 'Aspect ratio');
+  pick('imageSize', support.imageSizes, 'Image size');
+  pick('videoResolution', support.videoResolutions, 'Resolution');
+  pick('durationSeconds', support.durations, 'Duration');
+  pick('voiceName', support.voices, 'Voice');
+  pick('safetyThreshold', support.safetyThresholds, 'Safety threshold');
+
+  // Values that are each supported but not together, e.g. Veo renders 1080p only at 8 seconds
+  const durations = settings.videoResolution ? support.resolutionDurations?.[settings.videoResolution] : undefined;
+  const duration = settings.durationSeconds ?? model?.defaultConfig.durationSeconds;
+  if (durations && !durations.includes(duration)) {
+    warnings.push(`Resolution "${settings.videoResolution}" needs a duration of ${durations.join(' or ')}s on ${modelId}; using the default.`);
+    delete settings.videoResolution;
+  }
+
+  if (requested.numberOfOutputs !== undefined) {
+    const max = support.maxOutputs ?? 1;
+    settings.numberOfOutputs = Math.min(Math.max(Math.round(requested.numberOfOutputs), 1), max);
+    if (settings.numberOfOutputs !== requested.numberOfOutputs) {
+      warnings.push(`${modelId} can produce at most ${max} output(s) per request.`);
+    }
+  }
+
+  if (requested.thinkingBudget !== undefined) {
+    const range = support.thinkingBudget;
+    if (!range) {
+      warnings.push(`${modelId} doesn't support a thinking budget.`);
+    } else {
+      settings.thinkingBudget = Math.min(Math.max(Math.round(requested.thinkingBudget), range.min), range.max);
+      if (settings.thinkingBudget !== requested.thinkingBudget) {
+        warnings.push(`Thinking budget clamped to ${settings.thinkingBudget} for ${modelId}.`);
+      }
+    }
+  }
+
+  return { settings, warnings };
+};
+
+/**
+ * Registry defaults for a model with (already validated) settings applied,
+ * shaped the way the SDK expects for that model's task type.
+ */
+export const buildGenerationConfig = (modelId: string, settings: GenerationSettings = {}): Record<string, any> => {
+  const model = getModel(modelId);
+  const config: Record<string, any> = JSON.parse(JSON.stringify(model?.defaultConfig || {}));
+  const isVideo = model?.taskTypes.includes(TaskType.VIDEO);
+
+  if (settings.thinkingBudget !== undefined) {
+    config.thinkingConfig = { ...config.thinkingConfig, thinkingBudget: settings.thinkingBudget };
+  }
+
+  if (isVideo) {
+    if (settings.aspectRatio) config.aspectRatio = settings.aspectRatio;
+    if (settings.videoResolution) config.resolution = settings.videoResolution;
+    if (settings.durationSeconds) config.durationSeconds = settings.durationSeconds;
+    if (settings.numberOfOutputs) config.numberOfVideos = settings.numberOfOutputs;
+  } else if (settings.aspectRatio || settings.imageSize) {
+    config.imageConfig = {
+      ...config.imageConfig,
+      ...(settings.aspectRatio && { aspectRatio: settings.aspectRatio }),
+      ...(settings.imageSize && { imageSize: settings.imageSize }),
+    };
+  }
+
+  if (settings.safetyThreshold) {
+    config.safetySettings = buildSafetySettings(settings.safetyThreshold);
+  }
+
+  if (settings.voiceName) {
+    config.speechConfig = {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voiceName } },
+    };
+  }
+
+  return config;
+};
+
+// Compact label for the message footer, e.g. "16:9 · 2K · ×2"
+export const describeSettings = (settings: GenerationSettings): string => [
+  settings.aspectRatio,
+  settings.imageSize,
+  settings.videoResolution,
+  settings.durationSeconds && `${settings.durationSeconds}s`,
+  settings.numberOfOutputs && settings.numberOfOutputs > 1 && `×${settings.numberOfOutputs}`,
+  settings.voiceName,
+  settings.thinkingBudget !== undefined && `thinking ${settings.thinkingBudget}`,
+  settings.safetyThreshold && `safety: ${SAFETY_THRESHOLD_LABELS[settings.safetyThreshold] || settings.safetyThreshold}`,
+].filter(Boolean).join(' · ');
+
+// Union of what the registered models for a task type accept, for building the panel's options
+export const getSettingOptions = (type: TaskType): ModelSettingsSupport => {
+  const union = (values: Array<Array<any> | undefined>) => Array.from(new Set(values.flatMap(v => v || [])));
+  const models = getModelsForTask(type).map(m => m.settings || {});
+  const budgets = models.map(m => m.thinkingBudget).filter(Boolean) as Array<{ min: number; max: number }>;
+
+  return {
+    aspectRatios: union(models.map(m => m.aspectRatios)),
+    imageSizes: union(models.map(m => m.imageSizes)),
+    videoResolutions: union(models.map(m => m.videoResolutions)),
+    durations: union(models.map(m => m.durations)),
+    voices: union(models.map(m => m.voices)),
+    safetyThresholds: union(models.map(m => m.safetyThresholds)),
+    maxOutputs: Math.max(1, ...models.map(m => m.maxOutputs || 1)),
+    thinkingBudget: budgets.length > 0
+      ? { min: Math.min(...budgets.map(b => b.min)), max: Math.max(...budgets.map(b => b.max)) }
+      : undefined,
+  };
+};
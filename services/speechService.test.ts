@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { buildSpeechConfig, validateSpeakers } from './speechService';
+
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+describe('validateSpeakers', () => {
+  it('keeps two speakers with their chosen voices', () => {
+    expect(validateSpeakers([
+      { speaker: 'Joe', voice: 'Kore' },
+      { speaker: 'Jane', voice: 'Puck' },
+    ], TTS_MODEL)).toEqual([
+      { speaker: 'Joe', voice: 'Kore' },
+      { speaker: 'Jane', voice: 'Puck' },
+    ]);
+  });
+
+  it('replaces unknown or repeated voices with unused ones', () => {
+    const speakers = validateSpeakers([
+      { speaker: 'Joe', voice: 'Kore' },
+      { speaker: 'Jane', voice: 'Kore' },
+      { speaker: 'jane', voice: 'Puck' },
+    ], TTS_MODEL);
+
+    expect(speakers).toHaveLength(2);
+    expect(speakers?.[1].speaker).toBe('Jane');
+    expect(speakers?.[1].voice).not.toBe('Kore');
+  });
+
+  it('treats a single speaker as a monologue', () => {
+    expect(validateSpeakers([{ speaker: 'Joe', voice: 'Kore' }], TTS_MODEL)).toBeUndefined();
+  });
+
+  it('ignores speakers for models without multi-speaker support', () => {
+    expect(validateSpeakers([
+      { speaker: 'Joe', voice: 'Kore' },
+      { speaker: 'Jane', voice: 'Puck' },
+    ], 'gemini-3-flash-preview')).toBeUndefined();
+  });
+});
+
+describe('buildSpeechConfig', () => {
+  it('maps each speaker to a prebuilt voice', () => {
+    expect(buildSpeechConfig([{ speaker: 'Joe', voice: 'Kore' }])).toEqual({
+      multiSpeakerVoiceConfig: {
+        speakerVoiceConfigs: [{ speaker: 'Joe', voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }],
+      },
+    });
+  });
+});
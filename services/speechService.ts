@@ -0,0 +1,49 @@
+import { SpeakerVoice, TaskType } from "../types";
+import { getModel, getModelsForTask } from "./modelRegistry";
+
+/**
+ * SPEECH HELPERS
+ * A TTS request is either a monologue (one prebuilt voice, set via settings)
+ * or a dialogue where each named speaker in the script gets its own voice.
+ */
+
+// Most speakers any registered TTS model can voice in one request
+export const getMaxSpeakers = () =>
+  Math.max(1, ...getModelsForTask(TaskType.AUDIO).map(m => m.settings?.maxSpeakers || 1));
+
+// Speakers as the orchestrator returned them: voices may be missing, unknown or repeated
+export const validateSpeakers = (raw: any, modelId: string): SpeakerVoice[] | undefined => {
+  const support = getModel(modelId)?.settings;
+  const voices = support?.voices || [];
+  const maxSpeakers = support?.maxSpeakers || 1;
+  if (!Array.isArray(raw) || maxSpeakers < 2) return undefined;
+
+  const speakers: SpeakerVoice[] = [];
+  for (const item of raw) {
+    const speaker = typeof item?.speaker === 'string' ? item.speaker.trim() : '';
+    if (!speaker || speakers.some(s => s.speaker.toLowerCase() === speaker.toLowerCase())) continue;
+
+    const used = speakers.map(s => s.voice);
+    const voice = voices.includes(item.voice) && !used.includes(item.voice)
+      ? item.voice
+      : voices.find(v => !used.includes(v));
+    if (!voice) break;
+    speakers.push({ speaker, voice });
+  }
+
+  // A single speaker is just a monologue
+  return speakers.length >= 2 ? speakers.slice(0, maxSpeakers) : undefined;
+};
+
+export const buildSpeechConfig = (speakers: SpeakerVoice[]) => ({
+  multiSpeakerVoiceConfig: {
+    speakerVoiceConfigs: speakers.map(({ speaker, voice }) => ({
+      speaker,
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+    })),
+  },
+});
+
+// e.g. "Joe (Kore) · Jane (Puck)"
+export const describeVoices = (voices: SpeakerVoice[]) =>
+  voices.map(v => (v.speaker ? `${v.speaker} (${v.voice})` : v.voice)).join(' · ');
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Message, VideoJob } from '../types';
+import {
+  createSession,
+  deleteSession,
+  deleteVideoJob,
+  listSessions,
+  listVideoJobs,
+  saveSession,
+  saveVideoJob,
+} from './storageService';
+
+const message = (id: string, extra: Partial<Message> = {}): Message =>
+  ({ id, role: 'assistant', content: 'Done.', timestamp: 0, ...extra });
+
+// The database outlives each test, so every test starts from an empty one
+afterEach(async () => {
+  vi.useRealTimers();
+  await Promise.all((await listSessions()).map(s => deleteSession(s.id)));
+  await Promise.all((await listVideoJobs()).map(j => deleteVideoJob(j.id)));
+});
+
+describe('sessions', () => {
+  it('lists saved sessions, most recently updated first', async () => {
+    // Only the clock is faked; IndexedDB still needs real timers
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(1000);
+    const older = createSession([message('m1')]);
+    vi.setSystemTime(2000);
+    const newer = createSession();
+
+    await saveSession(newer);
+    await saveSession(older);
+    expect((await listSessions()).map(s => s.id)).toEqual(['2000', '1000']);
+
+    await saveSession({ ...older, updatedAt: 3000 });
+    expect((await listSessions()).map(s => s.id)).toEqual(['1000', '2000']);
+
+    await deleteSession('2000');
+    expect(await listSessions()).toHaveLength(1);
+  });
+
+  it('drops transient flags and keeps the messages', async () => {
+    const session = { ...createSession([message('m1', { isStreaming: true, isThinking: true })]), id: 's1' };
+    await saveSession(session);
+
+    const [loaded] = await listSessions();
+    expect(loaded.messages).toEqual([message('m1')]);
+  });
+
+  it('stores the bytes behind blob URLs and recreates a URL on load', async () => {
+    const video = new Blob(['mp4'], { type: 'video/mp4' });
+    const session = { ...createSession([message('m1', { attachmentUrl: 'blob:page-1', attachmentBlob: video })]), id: 's1' };
+    await saveSession(session);
+
+    const [loaded] = await listSessions();
+    expect(loaded.messages[0].attachmentBlob).toBeDefined();
+    expect(loaded.messages[0].attachmentUrl).toBe('blob:test');
+  });
+});
+
+describe('video jobs', () => {
+  it('saves, updates and deletes jobs', async () => {
+    const job: VideoJob = {
+      id: 'job-1',
+      sessionId: 's1',
+      messageId: 'm1',
+      model: 'veo-3.1-fast-generate-preview',
+      prompt: 'A fox',
+      settings: {},
+      status: 'running',
+      polls: 0,
+      createdAt: 0,
+      updatedAt: 0,
+    };
+
+    await saveVideoJob(job);
+    await saveVideoJob({ ...job, operationName: 'operations/1', polls: 1 });
+    expect(await listVideoJobs()).toEqual([{ ...job, operationName: 'operations/1', polls: 1 }]);
+
+    await deleteVideoJob('job-1');
+    expect(await listVideoJobs()).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { ChatSession, Message, VideoJob } from "../types";
+
+const DB_NAME = 'nexus-orchestrator';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const VIDEO_JOB_STORE = 'videoJobs'; // Added in version 2
+
+export const DEFAULT_SESSION_NAME = 'New chat';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Lazily opens (and upgrades) the database once per page load
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(VIDEO_JOB_STORE)) {
+          db.createObjectStore(VIDEO_JOB_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = SESSION_STORE
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/**
+ * Blob URLs (e.g. Veo videos) die with the page, so the underlying bytes are
+ * stored alongside the message and turned back into a URL on load.
+ */
+const serializeMessage = async (message: Message): Promise<Message> => {
+  const { isStreaming, isThinking, ...rest } = message;
+  const url = rest.attachmentUrl;
+  if (!url?.startsWith('blob:')) return rest;
+
+  const blob = rest.attachmentBlob || await fetch(url).then(r => r.blob());
+  return { ...rest, attachmentUrl: undefined, attachmentBlob: blob };
+};
+
+const deserializeMessage = (message: Message): Message => {
+  if (message.attachmentBlob && !message.attachmentUrl) {
+    return { ...message, attachmentUrl: URL.createObjectURL(message.attachmentBlob) };
+  }
+  return message;
+};
+
+export const createSession = (messages: Message[] = []): ChatSession => ({
+  id: Date.now().toString(),
+  name: DEFAULT_SESSION_NAME,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  messages,
+});
+
+// Most recently updated first
+export const listSessions = async (): Promise<ChatSession[]> => {
+  const sessions = await runTransaction<ChatSession[]>('readonly', store => store.getAll());
+  return sessions
+    .map(s => ({ ...s, messages: s.messages.map(deserializeMessage) }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveSession = async (session: ChatSession): Promise<void> => {
+  const messages = await Promise.all(session.messages.map(serializeMessage));
+  await runTransaction('readwrite', store => store.put({ ...session, messages }));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id));
+};
+
+// Background Veo jobs, kept so pending operations survive a reload
+export const listVideoJobs = (): Promise<VideoJob[]> =>
+  runTransaction<VideoJob[]>('readonly', store => store.getAll(), VIDEO_JOB_STORE);
+
+export const saveVideoJob = async (job: VideoJob): Promise<void> => {
+  await runTransaction('readwrite', store => store.put(job), VIDEO_JOB_STORE);
+};
+
+export const deleteVideoJob = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id), VIDEO_JOB_STORE);
+};
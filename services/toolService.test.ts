@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Message } from '../types';
+import { evaluateExpression, runToolCall } from './toolService';
+
+describe('evaluateExpression', () => {
+  it('respects precedence, associativity and functions', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateExpression('-(1.5 + 2) * sqrt(16)')).toBe(-14);
+    expect(evaluateExpression('round(pi * 100) % 7')).toBe(314 % 7);
+  });
+
+  it('applies unary minus after exponentiation', () => {
+    expect(evaluateExpression('-2^2')).toBe(-4);
+    expect(evaluateExpression('(-2)^2')).toBe(4);
+    expect(evaluateExpression('2^-1')).toBe(0.5);
+    expect(evaluateExpression('3 * -2^2')).toBe(-12);
+  });
+
+  it('rejects anything that is not arithmetic', () => {
+    expect(() => evaluateExpression('alert(1)')).toThrow(/Unknown symbol/);
+    expect(() => evaluateExpression('2 +')).toThrow(/Unexpected end/);
+    expect(() => evaluateExpression('1; 2')).toThrow(/Unsupported characters/);
+    expect(() => evaluateExpression('1 / 0')).toThrow(/no finite result/);
+  });
+});
+
+describe('runToolCall', () => {
+  const history: Message[] = [
+    { id: '1', role: 'user', content: 'My flight is BA 117 on Friday', timestamp: 0 },
+    { id: '2', role: 'assistant', content: 'Noted.', timestamp: 0 },
+  ];
+
+  it('looks up earlier messages', async () => {
+    const record = await runToolCall({ name: 'search_conversation', args: { query: 'flight friday' } }, { history });
+    expect(record.result).toMatchObject({ matches: [{ index: 0, role: 'user', content: 'My flight is BA 117 on Friday' }] });
+  });
+
+  it('records failures instead of throwing', async () => {
+    expect((await runToolCall({ name: 'nope', args: {} }, { history })).error).toBe('Unknown tool "nope".');
+    const proxy = await runToolCall({ name: 'fetch_local_api', args: { path: '/api/text' } }, { history });
+    expect(proxy.error).toMatch(/model proxy/);
+    const external = await runToolCall({ name: 'fetch_local_api', args: { path: '//evil.example/x' } }, { history });
+    expect(external.error).toMatch(/own origin/);
+  });
+});
+
+describe('fetch_local_api', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads JSON from an allowed internal path', async () => {
+    const fetchMock = vi.fn(async () => new Response('{"ok":true}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const record = await runToolCall({ name: 'fetch_local_api', args: { path: '/internal/status?verbose=1' } }, { history: [] });
+    expect(record.result).toEqual({ status: 200, body: { ok: true } });
+    expect(String((fetchMock.mock.calls[0] as unknown[])[0])).toBe(`${window.location.origin}/internal/status?verbose=1`);
+  });
+
+  it('refuses same-origin paths outside the configured prefixes', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    for (const path of ['/src/App.tsx', '/index.html', '/internal', '/internal/../services/toolService.ts', '/internal/%2e%2e/App.tsx']) {
+      const record = await runToolCall({ name: 'fetch_local_api', args: { path } }, { history: [] });
+      expect(record.error).toMatch(/Only paths under \/internal\//);
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,251 @@
+import { FunctionCall, FunctionDeclaration, Part, Type } from "@google/genai";
+import { Message, ToolCallRecord } from "../types";
+import { API_BASE_PATH } from "./transport";
+
+/**
+ * TOOLS (function calling)
+ * TEXT tasks get these as `functionDeclarations`. When the model calls one,
+ * the service runs it, sends the result back and lets the model continue
+ * until it answers (see streamTextResponse).
+ */
+
+export interface ToolContext {
+  history: Message[]; // Conversation before the current prompt
+  signal?: AbortSignal;
+}
+
+export interface ToolDefinition {
+  declaration: FunctionDeclaration;
+  run: (args: Record<string, any>, context: ToolContext) => unknown | Promise<unknown>;
+}
+
+// Upper bound on call/response rounds before the model must answer
+export const MAX_TOOL_ROUNDS = 5;
+
+const LOCAL_API_TIMEOUT_MS = 10_000;
+// Same-origin paths the fetch_local_api tool may read; everything else (app source, assets) is refused
+export const LOCAL_API_PATH_PREFIXES = ['/internal/'];
+const MAX_TOOL_RESULT_CHARS = 10_000;
+
+// --- Calculator: a small recursive-descent parser, so nothing is ever eval'd ---
+
+const MATH_FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  ln: Math.log, log: Math.log10, exp: Math.exp,
+};
+const MATH_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+export const evaluateExpression = (expression: string): number => {
+  const tokens = expression.toLowerCase().match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[a-z]+|\*\*|[-+*/%^(),]/g) || [];
+  if (tokens.join('') !== expression.toLowerCase().replace(/\s+/g, '')) {
+    throw new Error(`Unsupported characters in "${expression}".`);
+  }
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}" in "${expression}".`);
+  };
+
+  // expr := term (('+' | '-') term)*
+  const parseExpr = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+  // term := unary (('*' | '/' | '%') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = next();
+      const right = parseUnary();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  // unary := ('-' | '+') unary | power  (so -2^2 is -(2^2), as in maths)
+  const parseUnary = (): number => {
+    if (peek() === '-') { next(); return -parseUnary(); }
+    if (peek() === '+') { next(); return parseUnary(); }
+    return parsePower();
+  };
+  // power := atom (('^' | '**') unary)?  (right-associative, allows 2^-1)
+  const parsePower = (): number => {
+    const base = parseAtom();
+    if (peek() === '^' || peek() === '**') {
+      next();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+  const parseAtom = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error(`Unexpected end of "${expression}".`);
+    if (token === '(') {
+      const value = parseExpr();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    if (token in MATH_CONSTANTS) return MATH_CONSTANTS[token];
+    if (token in MATH_FUNCTIONS) {
+      expect('(');
+      const value = parseExpr();
+      expect(')');
+      return MATH_FUNCTIONS[token](value);
+    }
+    throw new Error(`Unknown symbol "${token}" in "${expression}".`);
+  };
+
+  const result = parseExpr();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}" in "${expression}".`);
+  if (!Number.isFinite(result)) throw new Error(`"${expression}" has no finite result.`);
+  return result;
+};
+
+const calculator: ToolDefinition = {
+  declaration: {
+    name: 'calculator',
+    description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log (base 10), exp.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { expression: { type: Type.STRING, description: 'For example "(3.5 + 2) * sqrt(16)".' } },
+      required: ['expression'],
+    },
+  },
+  run: ({ expression }) => ({ expression, result: evaluateExpression(String(expression)) }),
+};
+
+const currentDate: ToolDefinition = {
+  declaration: {
+    name: 'current_date',
+    description: "Returns the user's current local date, time and time zone.",
+  },
+  run: () => {
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      local: now.toLocaleString(undefined, { dateStyle: 'full', timeStyle: 'long' }),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  },
+};
+
+// GETs from the app's own origin under LOCAL_API_PATH_PREFIXES; the Gemini proxy and other origins are off limits
+const fetchLocalApi: ToolDefinition = {
+  declaration: {
+    name: 'fetch_local_api',
+    description: `Sends a GET request to an internal HTTP API served from the same origin as this app and returns the response. Only paths starting with ${LOCAL_API_PATH_PREFIXES.map(p => `"${p}"`).join(' or ')} are allowed.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: { path: { type: Type.STRING, description: 'Absolute path with optional query string, e.g. "/internal/status?verbose=1".' } },
+      required: ['path'],
+    },
+  },
+  run: async ({ path }, { signal }) => {
+    const target = String(path);
+    const url = new URL(target, window.location.origin);
+    if (!target.startsWith('/') || url.origin !== window.location.origin) {
+      throw new Error("Only paths on this app's own origin can be fetched.");
+    }
+    if (url.pathname === API_BASE_PATH || url.pathname.startsWith(`${API_BASE_PATH}/`)) {
+      throw new Error(`${API_BASE_PATH} is the model proxy and can't be called as a tool.`);
+    }
+    // Checked on the normalised path, so "/internal/../src" doesn't get through
+    if (!LOCAL_API_PATH_PREFIXES.some(prefix => url.pathname.startsWith(prefix))) {
+      throw new Error(`Only paths under ${LOCAL_API_PATH_PREFIXES.join(', ')} can be fetched.`);
+    }
+
+    const timeout = AbortSignal.timeout(LOCAL_API_TIMEOUT_MS);
+    const res = await fetch(url, { signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+    const body = await res.text();
+    let data: unknown = body;
+    try {
+      data = JSON.parse(body);
+    } catch {
+      // Not JSON; return the text as-is
+    }
+    return { status: res.status, body: data };
+  },
+};
+
+const searchConversation: ToolDefinition = {
+  declaration: {
+    name: 'search_conversation',
+    description: 'Finds earlier messages in this conversation containing the given words, including ones no longer in your context window.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: 'Words to look for (case-insensitive, all must match).' },
+        limit: { type: Type.INTEGER, description: 'Maximum number of messages to return (default 5).' },
+      },
+      required: ['query'],
+    },
+  },
+  run: ({ query, limit }, { history }) => {
+    const words = String(query).toLowerCase().split(/\s+/).filter(Boolean);
+    const matches = history
+      .map((message, index) => ({ message, index }))
+      .filter(({ message }) => message.role !== 'system' && words.every(w => message.content.toLowerCase().includes(w)))
+      .slice(-(Number(limit) || 5))
+      .map(({ message, index }) => ({
+        index,
+        role: message.role,
+        time: new Date(message.timestamp).toISOString(),
+        content: message.content.slice(0, 1000),
+      }));
+    return { matches };
+  },
+};
+
+const TOOLS: ToolDefinition[] = [calculator, currentDate, fetchLocalApi, searchConversation];
+
+export const listTools = (): ToolDefinition[] => TOOLS;
+
+export const getTool = (name: string): ToolDefinition | undefined =>
+  TOOLS.find(t => t.declaration.name === name);
+
+export const toFunctionDeclarations = (tools: ToolDefinition[]): FunctionDeclaration[] =>
+  tools.map(t => t.declaration);
+
+// Results go back to the model as JSON, so long ones are truncated
+const capResult = (result: unknown): unknown => {
+  const json = JSON.stringify(result ?? null);
+  return json.length > MAX_TOOL_RESULT_CHARS
+    ? { truncated: true, preview: json.slice(0, MAX_TOOL_RESULT_CHARS) }
+    : result;
+};
+
+/**
+ * Runs one function call. Failures are captured in the record (and reported
+ * to the model) rather than thrown, so the model can recover or explain.
+ */
+export const runToolCall = async (call: FunctionCall, context: ToolContext, tools = TOOLS): Promise<ToolCallRecord> => {
+  const startedAt = Date.now();
+  const name = call.name || 'unknown';
+  const args = (call.args || {}) as Record<string, unknown>;
+  const record: ToolCallRecord = { id: call.id || `${startedAt}-${name}`, name, args, durationMs: 0 };
+
+  try {
+    const tool = tools.find(t => t.declaration.name === name);
+    if (!tool) throw new Error(`Unknown tool "${name}".`);
+    record.result = capResult(await tool.run(args, context));
+  } catch (err: any) {
+    if (context.signal?.aborted) throw err;
+    record.error = err?.message || String(err);
+  }
+  record.durationMs = Date.now() - startedAt;
+  return record;
+};
+
+// `callId` is echoed only when the model sent one
+export const toFunctionResponsePart = (record: ToolCallRecord, callId?: string): Part => ({
+  functionResponse: {
+    ...(callId ? { id: callId } : {}),
+    name: record.name,
+    response: record.error ? { error: record.error } : { output: record.result },
+  },
+});
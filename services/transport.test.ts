@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createHttpTransport } from './transport';
+
+// A streamed response whose body arrives in exactly these pieces
+const streamedResponse = (pieces: string[]) => {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    },
+  }), { status: 200, headers: { 'Content-Type': 'application/x-ndjson' } });
+};
+
+const chunk = (text: string) => JSON.stringify({ candidates: [{ content: { role: 'model', parts: [{ text }] } }] });
+
+const collect = async (stream: AsyncGenerator<{ text?: string }>) => {
+  const texts: string[] = [];
+  for await (const item of stream) texts.push(item.text || '');
+  return texts;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createHttpTransport', () => {
+  it('parses NDJSON chunks even when lines are split across reads', async () => {
+    const lines = `${chunk('Hello ')}\n\n${chunk('world')}\n`;
+    vi.stubGlobal('fetch', vi.fn(async () => streamedResponse([lines.slice(0, 20), lines.slice(20, 70), lines.slice(70)])));
+
+    const stream = await createHttpTransport().generateContentStream({ model: 'gemini-3-flash-preview', contents: 'hi' });
+    expect(await collect(stream)).toEqual(['Hello ', 'world']);
+  });
+
+  it('throws an in-band error line with the status the server reported', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => streamedResponse([`${chunk('Partial')}\n`, `${JSON.stringify({ error: 'Quota exceeded', status: 429 })}\n`])));
+
+    const stream = await createHttpTransport().generateContentStream({ model: 'gemini-3-flash-preview', contents: 'hi' });
+    const texts: string[] = [];
+    await expect((async () => {
+      for await (const item of stream) texts.push(item.text || '');
+    })()).rejects.toMatchObject({ status: 429, message: 'Quota exceeded' });
+    expect(texts).toEqual(['Partial']);
+  });
+
+  it('surfaces the server error message and status for failed requests', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ error: 'Request body too large.' }), { status: 413 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(createHttpTransport('/proxy').generateContent('text', { model: 'gemini-3-flash-preview', contents: 'hi' }))
+      .rejects.toMatchObject({ status: 413, message: 'Request body too large.' });
+    expect(fetchMock).toHaveBeenCalledWith('/proxy/text', expect.objectContaining({ method: 'POST' }));
+  });
+
+  it('keeps the abort signal out of the request body', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(chunk('ok')));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await createHttpTransport().generateContent('text', {
+      model: 'gemini-3-flash-preview',
+      contents: 'hi',
+      config: { abortSignal: new AbortController().signal, temperature: 0 },
+    });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string).config).toEqual({ temperature: 0 });
+  });
+});
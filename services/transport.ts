@@ -0,0 +1,124 @@
+import {
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateVideosParameters,
+  GenerateVideosOperation,
+} from "@google/genai";
+
+/**
+ * TRANSPORT LAYER
+ * The service layer never talks to Gemini directly. In the browser it goes
+ * through the HTTP proxy (server/), which holds the API key; the server side
+ * implements the same interface on top of the SDK (or a local stub).
+ */
+
+// One endpoint per operation so the server can restrict which models each may use
+export type ContentOperation = 'orchestrate' | 'text' | 'image' | 'tts';
+
+export interface GeminiTransport {
+  generateContent(
+    operation: ContentOperation,
+    params: GenerateContentParameters,
+    signal?: AbortSignal
+  ): Promise<GenerateContentResponse>;
+  generateContentStream(
+    params: GenerateContentParameters,
+    signal?: AbortSignal
+  ): Promise<AsyncGenerator<GenerateContentResponse>>;
+  generateVideos(params: GenerateVideosParameters, signal?: AbortSignal): Promise<GenerateVideosOperation>;
+  // The model that started the operation, so the server can pick the provider that owns it
+  getVideosOperation(name: string, model: string, signal?: AbortSignal): Promise<GenerateVideosOperation>;
+  downloadVideo(uri: string, model: string, signal?: AbortSignal): Promise<Blob>;
+}
+
+export const API_BASE_PATH = '/api';
+
+// Re-attach SDK helpers (e.g. the `.text` getter) to plain JSON from the wire
+export const toContentResponse = (json: any): GenerateContentResponse =>
+  Object.assign(new GenerateContentResponse(), json);
+
+export const toVideosOperation = (json: any): GenerateVideosOperation =>
+  Object.assign(new GenerateVideosOperation(), json);
+
+// Errors keep the HTTP status so classifyError can tell quota from server failures
+class HttpTransportError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpTransportError';
+    this.status = status;
+  }
+}
+
+// abortSignal is a client-side concern and can't be serialized
+const withoutSignal = <T extends { config?: any }>(params: T): T => {
+  if (!params.config?.abortSignal) return params;
+  const { abortSignal, ...config } = params.config;
+  return { ...params, config };
+};
+
+export const createHttpTransport = (baseUrl: string = API_BASE_PATH): GeminiTransport => {
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!res.ok) {
+      const detail = await res.json().catch(() => ({}));
+      throw new HttpTransportError(res.status, detail.error || `Request to ${path} failed (${res.status}).`);
+    }
+    return res;
+  };
+
+  return {
+    async generateContent(operation, params, signal) {
+      const res = await post(`/${operation}`, withoutSignal(params), signal);
+      return toContentResponse(await res.json());
+    },
+
+    // The server streams newline-delimited JSON chunks
+    async generateContentStream(params, signal) {
+      const res = await post('/text/stream', withoutSignal(params), signal);
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+
+      return (async function* () {
+        let buffer = '';
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          for (const line of lines) {
+            if (!line.trim()) continue;
+            const chunk = JSON.parse(line);
+            if (chunk.error) throw new HttpTransportError(chunk.status || 500, chunk.error);
+            yield toContentResponse(chunk);
+          }
+        }
+      })();
+    },
+
+    async generateVideos(params, signal) {
+      const res = await post('/video', withoutSignal(params), signal);
+      return toVideosOperation(await res.json());
+    },
+
+    async getVideosOperation(name, model, signal) {
+      const res = await post('/video/operation', { name, model }, signal);
+      return toVideosOperation(await res.json());
+    },
+
+    // The server appends the API key, so it never reaches the browser
+    async downloadVideo(uri, model, signal) {
+      const query = new URLSearchParams({ uri, model });
+      const res = await fetch(`${baseUrl}/video/file?${query}`, { signal });
+      if (!res.ok) throw new HttpTransportError(res.status, "Failed to download generated video.");
+      return res.blob();
+    },
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { UsageRecord } from '../types';
+import { checkBudget, estimateCost, estimateRequestCost, recordUsage } from './usageService';
+
+const record = (estimatedCost: number, timestamp = Date.now()): UsageRecord => ({
+  id: `r-${Math.random()}`,
+  phase: 'execution',
+  model: 'gemini-3-pro-image-preview',
+  promptTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  latencyMs: 100,
+  estimatedCost,
+  timestamp,
+});
+
+describe('estimateCost', () => {
+  it('prices tokens per million and media per unit', () => {
+    expect(estimateCost('gemini-3-flash-preview', 1_000_000, 500_000)).toBeCloseTo(2);
+    expect(estimateCost('gemini-2.5-flash-image', 0, 0, { images: 2 })).toBeCloseTo(0.078);
+    expect(estimateCost('unknown-model', 1_000_000, 1_000_000)).toBe(0);
+  });
+});
+
+describe('estimateRequestCost', () => {
+  it('estimates media calls from the requested outputs and duration', () => {
+    expect(estimateRequestCost('gemini-3-pro-image-preview', { numberOfOutputs: 3 })).toBeCloseTo(0.402);
+    expect(estimateRequestCost('veo-3.1-fast-generate-preview')).toBeCloseTo(1.2);
+    expect(estimateRequestCost('veo-3.1-fast-generate-preview', { durationSeconds: 4, numberOfOutputs: 2 })).toBeCloseTo(1.2);
+    expect(estimateRequestCost('gemini-3-flash-preview')).toBe(0);
+  });
+});
+
+describe('checkBudget', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows free calls and calls without limits', () => {
+    recordUsage([record(50)], 's1');
+    expect(checkBudget(0, 's1', { mode: 'block', dailyLimitUsd: 1 }).status).toBe('ok');
+    expect(checkBudget(5, 's1', { mode: 'block' }).status).toBe('ok');
+  });
+
+  it("warns or blocks once today's spend plus the call passes the daily limit", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 2, 14, 12));
+    recordUsage([record(0.9), record(5, new Date(2025, 2, 13, 12).getTime())], 's1');
+
+    expect(checkBudget(0.1, 's2', { mode: 'warn', dailyLimitUsd: 1 }).status).toBe('ok');
+    const result = checkBudget(0.2, 's2', { mode: 'warn', dailyLimitUsd: 1 });
+    expect(result.status).toBe('warn');
+    expect(result.message).toMatch(/daily budget of \$1\.00 \(spent \$0\.90\)/);
+    expect(checkBudget(0.2, 's2', { mode: 'block', dailyLimitUsd: 1 }).status).toBe('block');
+  });
+
+  it("counts only this session's spend against the session limit", () => {
+    recordUsage([record(0.5)], 's1');
+    recordUsage([record(0.5)], 's2');
+
+    expect(checkBudget(0.4, 's1', { mode: 'block', sessionLimitUsd: 1 }).status).toBe('ok');
+    expect(checkBudget(0.6, 's1', { mode: 'block', sessionLimitUsd: 1 }).message).toMatch(/session budget/);
+  });
+});
@@ -0,0 +1,181 @@
+import { GenerateContentResponseUsageMetadata } from "@google/genai";
+import { GenerationSettings, TaskType, UsageBudget, UsageRecord } from "../types";
+import { getModel } from "./modelRegistry";
+
+/**
+ * USAGE ACCOUNTING
+ * Every orchestration/execution call produces a UsageRecord. Records are kept
+ * on the Message and in a local ledger for per-session and per-day totals.
+ */
+
+const LEDGER_STORAGE_KEY = 'nexus-usage-ledger';
+const BUDGET_STORAGE_KEY = 'nexus-usage-budget';
+const MAX_LEDGER_RECORDS = 5000;
+
+// Veo bills per second of output; used when no duration was requested
+export const DEFAULT_VIDEO_SECONDS = 8;
+
+export const DEFAULT_BUDGET: UsageBudget = { mode: 'warn' };
+
+interface CostUnits {
+  images?: number;
+  videoSeconds?: number;
+}
+
+export const estimateCost = (
+  modelId: string,
+  promptTokens: number,
+  outputTokens: number,
+  units: CostUnits = {}
+): number => {
+  const pricing = getModel(modelId)?.pricing;
+  if (!pricing) return 0;
+
+  return (
+    (promptTokens / 1_000_000) * (pricing.inputPerMillionTokens || 0) +
+    (outputTokens / 1_000_000) * (pricing.outputPerMillionTokens || 0) +
+    (units.images || 0) * (pricing.perImage || 0) +
+    (units.videoSeconds || 0) * (pricing.perVideoSecond || 0)
+  );
+};
+
+// Builds a record from the SDK's usage metadata (absent for Veo) and a start time
+export const createUsageRecord = (
+  phase: UsageRecord['phase'],
+  model: string,
+  startedAt: number,
+  metadata?: GenerateContentResponseUsageMetadata,
+  taskType?: TaskType,
+  units: CostUnits = {}
+): UsageRecord => {
+  const promptTokens = metadata?.promptTokenCount || 0;
+  // Thinking tokens are billed as output
+  const outputTokens = (metadata?.candidatesTokenCount || 0) + (metadata?.thoughtsTokenCount || 0);
+
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    phase,
+    model,
+    taskType,
+    promptTokens,
+    outputTokens,
+    totalTokens: metadata?.totalTokenCount || promptTokens + outputTokens,
+    latencyMs: Date.now() - startedAt,
+    estimatedCost: estimateCost(model, promptTokens, outputTokens, units),
+    timestamp: Date.now(),
+  };
+};
+
+// Adds usage records from several calls into one (e.g. parallel image outputs)
+export const combineUsage = (records: UsageRecord[]): UsageRecord => ({
+  ...records[0],
+  promptTokens: records.reduce((sum, r) => sum + r.promptTokens, 0),
+  outputTokens: records.reduce((sum, r) => sum + r.outputTokens, 0),
+  totalTokens: records.reduce((sum, r) => sum + r.totalTokens, 0),
+  latencyMs: Math.max(...records.map(r => r.latencyMs)),
+  estimatedCost: records.reduce((sum, r) => sum + r.estimatedCost, 0),
+});
+
+// Up-front estimate for media calls whose price doesn't depend on tokens
+export const estimateRequestCost = (modelId: string, settings: GenerationSettings = {}): number => {
+  const model = getModel(modelId);
+  if (model?.taskTypes.includes(TaskType.VIDEO)) {
+    return estimateCost(modelId, 0, 0, { videoSeconds: (settings.durationSeconds || DEFAULT_VIDEO_SECONDS) * (settings.numberOfOutputs || 1) });
+  }
+  if (model?.taskTypes.includes(TaskType.IMAGE)) {
+    return estimateCost(modelId, 0, 0, { images: settings.numberOfOutputs || 1 });
+  }
+  return 0;
+};
+
+export const loadLedger = (): UsageRecord[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LEDGER_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const recordUsage = (records: UsageRecord[], sessionId?: string) => {
+  if (records.length === 0) return;
+  const ledger = [...loadLedger(), ...records.map(r => ({ ...r, sessionId }))];
+  localStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(ledger.slice(-MAX_LEDGER_RECORDS)));
+};
+
+export const clearLedger = () => {
+  localStorage.removeItem(LEDGER_STORAGE_KEY);
+};
+
+export const loadBudget = (): UsageBudget => {
+  try {
+    return { ...DEFAULT_BUDGET, ...JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_BUDGET;
+  }
+};
+
+export const saveBudget = (budget: UsageBudget) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+};
+
+const startOfToday = () => {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+export interface UsageTotals {
+  calls: number;
+  totalTokens: number;
+  estimatedCost: number;
+  avgLatencyMs: number;
+}
+
+export const summarize = (records: UsageRecord[]): UsageTotals => ({
+  calls: records.length,
+  totalTokens: records.reduce((sum, r) => sum + r.totalTokens, 0),
+  estimatedCost: records.reduce((sum, r) => sum + r.estimatedCost, 0),
+  avgLatencyMs: records.length ? records.reduce((sum, r) => sum + r.latencyMs, 0) / records.length : 0,
+});
+
+export const getTodayRecords = (ledger: UsageRecord[]) => ledger.filter(r => r.timestamp >= startOfToday());
+
+export const getSessionRecords = (ledger: UsageRecord[], sessionId: string | null) =>
+  ledger.filter(r => r.sessionId === sessionId);
+
+export const breakdownByModel = (records: UsageRecord[]): Array<{ model: string } & UsageTotals> => {
+  const groups = new Map<string, UsageRecord[]>();
+  records.forEach(r => groups.set(r.model, [...(groups.get(r.model) || []), r]));
+  return Array.from(groups, ([model, group]) => ({ model, ...summarize(group) }))
+    .sort((a, b) => b.estimatedCost - a.estimatedCost);
+};
+
+/**
+ * Checks whether a call with the given estimated cost would push today's or
+ * this session's spend over budget.
+ */
+export const checkBudget = (
+  estimatedCost: number,
+  sessionId: string | null,
+  budget: UsageBudget = loadBudget()
+): { status: 'ok' | 'warn' | 'block'; message?: string } => {
+  if (estimatedCost <= 0) return { status: 'ok' };
+
+  const ledger = loadLedger();
+  const checks: Array<[number | undefined, number, string]> = [
+    [budget.dailyLimitUsd, summarize(getTodayRecords(ledger)).estimatedCost, 'daily'],
+    [budget.sessionLimitUsd, summarize(getSessionRecords(ledger, sessionId)).estimatedCost, 'session'],
+  ];
+
+  for (const [limit, spent, label] of checks) {
+    if (limit !== undefined && spent + estimatedCost > limit) {
+      return {
+        status: budget.mode,
+        message: `This call (~${formatCost(estimatedCost)}) would exceed your ${label} budget of ${formatCost(limit)} (spent ${formatCost(spent)}).`,
+      };
+    }
+  }
+  return { status: 'ok' };
+};
+
+export const formatCost = (usd: number) => (usd < 0.01 && usd > 0 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`);
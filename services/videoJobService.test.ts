@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import { setTransport } from './geminiService';
+import { createVideoJob, runVideoJob } from './videoJobService';
+import { toVideosOperation } from './transport';
+import { createFakeTransport } from '../test/fakeTransport';
+
+const newJob = () => createVideoJob({
+  sessionId: 's1',
+  messageId: 'm1',
+  model: 'veo-3.1-fast-generate-preview',
+  prompt: 'a sunset',
+  settings: {},
+});
+
+describe('runVideoJob', () => {
+  it('starts the operation and records its name', async () => {
+    setTransport(createFakeTransport());
+    const onUpdate = vi.fn();
+
+    const { url } = await runVideoJob(newJob(), onUpdate, new AbortController().signal);
+    expect(url).toBe('blob:test');
+    expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ operationName: 'operations/stub-video' }));
+  });
+
+  it('resumes a stored operation instead of starting a new one', async () => {
+    const generateVideos = vi.fn();
+    const getVideosOperation = vi.fn(async (name: string) => toVideosOperation({
+      name,
+      done: true,
+      response: { generatedVideos: [{ video: { uri: 'stub://video/1' } }] },
+    }));
+    setTransport(createFakeTransport(undefined, { generateVideos, getVideosOperation }));
+
+    await runVideoJob({ ...newJob(), operationName: 'operations/resumed' }, vi.fn(), new AbortController().signal);
+    expect(generateVideos).not.toHaveBeenCalled();
+    expect(getVideosOperation).toHaveBeenCalledWith('operations/resumed', 'veo-3.1-fast-generate-preview', expect.anything());
+  });
+
+  it('fails once the render deadline has passed', async () => {
+    setTransport(createFakeTransport(undefined, {
+      getVideosOperation: async (name) => toVideosOperation({ name, done: false }),
+    }));
+    const staleJob = { ...newJob(), operationName: 'operations/old', createdAt: Date.now() - 60 * 60_000 };
+
+    await expect(runVideoJob(staleJob, vi.fn(), new AbortController().signal)).rejects.toMatchObject({ kind: 'timeout' });
+  });
+});
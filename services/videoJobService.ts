@@ -0,0 +1,76 @@
+import { Attachment, GenerationSettings, TaskType, UsageRecord, VideoJob } from "../types";
+import { VIDEO_POLL_INTERVAL_MS, downloadVideoResult, getVideoOperation, startVideoOperation } from "./geminiService";
+import { RequestError, TASK_TIMEOUTS_MS, classifyError, sleep } from "./requestService";
+
+/**
+ * VIDEO JOBS
+ * Veo renders take minutes, so VIDEO steps don't block the chat: they create a
+ * job that is polled in the background and persisted (see storageService),
+ * so a reload resumes polling the same operation.
+ */
+
+// Typical render time, only used to pace the progress bar
+export const EXPECTED_VIDEO_RENDER_MS = 90_000;
+
+export const createVideoJob = (fields: {
+  sessionId: string;
+  messageId: string;
+  model: string;
+  prompt: string;
+  settings: GenerationSettings;
+  startFrame?: Attachment;
+}): VideoJob => ({
+  ...fields,
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  status: 'running',
+  polls: 0,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+// Same request as a fresh job, for retrying a failed or cancelled one
+export const resetVideoJob = (job: VideoJob): VideoJob => ({
+  ...job,
+  operationName: undefined,
+  status: 'running',
+  error: undefined,
+  polls: 0,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+/**
+ * Starts (or resumes) a job's operation and polls it until the video is ready.
+ * `onUpdate` receives every state change so it can be persisted; the deadline
+ * counts from job creation, so time spent before a reload is included.
+ */
+export const runVideoJob = async (
+  job: VideoJob,
+  onUpdate: (job: VideoJob) => void,
+  signal: AbortSignal
+): Promise<{ url: string; usage: UsageRecord }> => {
+  const deadline = job.createdAt + TASK_TIMEOUTS_MS[TaskType.VIDEO];
+  let current = job;
+  const update = (patch: Partial<VideoJob>) => {
+    current = { ...current, ...patch, updatedAt: Date.now() };
+    onUpdate(current);
+  };
+
+  let operation = current.operationName
+    ? await getVideoOperation(current.operationName, job.model, signal)
+    : await startVideoOperation(job.model, job.prompt, signal, job.startFrame ? [job.startFrame] : [], job.settings);
+  if (!current.operationName) update({ operationName: operation.name });
+
+  while (!operation.done) {
+    if (Date.now() >= deadline) {
+      throw new RequestError('timeout', "Video generation took too long and was stopped.");
+    }
+    await sleep(Math.min(VIDEO_POLL_INTERVAL_MS, deadline - Date.now()), signal).catch(err => {
+      throw classifyError(err);
+    });
+    operation = await getVideoOperation(current.operationName!, job.model, signal);
+    update({ polls: current.polls + 1 });
+  }
+
+  return downloadVideoResult(operation, job.model, job.createdAt, signal, job.settings);
+};
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { VOICE_REPLY_MAX_CHARS, loadVoicePreferences, saveVoicePreferences, toSpeakableText } from './voiceService';
+
+describe('toSpeakableText', () => {
+  it('strips markdown syntax, links and code', () => {
+    expect(toSpeakableText('## Result\n\n**Bold** and `inline` with [a link](https://x.y).\n\n```js\nconst a = 1;\n```\n- item one'))
+      .toBe('Result\nBold and inline with a link.\n(code omitted)\nitem one');
+  });
+
+  it('keeps snake_case identifiers intact', () => {
+    expect(toSpeakableText('Set max_tokens first.')).toBe('Set max_tokens first.');
+  });
+
+  it('shortens long answers at a sentence boundary', () => {
+    const text = toSpeakableText('This is a sentence. '.repeat(400));
+    expect(text.length).toBeLessThan(VOICE_REPLY_MAX_CHARS + 50);
+    expect(text).toMatch(/sentence\. The rest is in the written answer\.$/);
+  });
+});
+
+describe('voice preferences', () => {
+  it('round-trips through storage with defaults for missing fields', () => {
+    expect(loadVoicePreferences().sendAs).toBe('transcript');
+    saveVoicePreferences({ ...loadVoicePreferences(), pushToTalk: true });
+    expect(loadVoicePreferences()).toMatchObject({ pushToTalk: true, replyByVoice: false });
+  });
+});
@@ -0,0 +1,82 @@
+import { ORCHESTRATOR_MODEL, getDefaultModel } from "./modelRegistry";
+import { TaskType } from "../types";
+
+/**
+ * VOICE INPUT / OUTPUT
+ * Recordings from the composer microphone are either transcribed into a
+ * prompt or sent as an audio attachment. "Reply by voice" reads text answers
+ * aloud through the TTS model.
+ */
+
+export interface VoicePreferences {
+  pushToTalk: boolean; // Hold the mic button instead of click to start / click to stop
+  sendAs: 'transcript' | 'audio'; // Transcribe into the prompt, or attach the recording itself
+  autoSubmit: boolean; // Send right away instead of showing the transcript preview
+  replyByVoice: boolean; // Also speak TEXT/SEARCH answers
+}
+
+const VOICE_STORAGE_KEY = 'nexus-voice-preferences';
+
+export const DEFAULT_VOICE_PREFERENCES: VoicePreferences = {
+  pushToTalk: false,
+  sendAs: 'transcript',
+  autoSubmit: false,
+  replyByVoice: false,
+};
+
+export const loadVoicePreferences = (): VoicePreferences => {
+  try {
+    return { ...DEFAULT_VOICE_PREFERENCES, ...JSON.parse(localStorage.getItem(VOICE_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_VOICE_PREFERENCES;
+  }
+};
+
+export const saveVoicePreferences = (preferences: VoicePreferences) => {
+  localStorage.setItem(VOICE_STORAGE_KEY, JSON.stringify(preferences));
+};
+
+// Cheap and fast is all transcription needs
+export const TRANSCRIPTION_MODEL = ORCHESTRATOR_MODEL;
+
+// Prompt sent with a recording when it goes to the orchestrator as audio
+export const VOICE_MESSAGE_PROMPT = "Respond to the attached voice message.";
+
+// Recordings past this are stopped automatically to stay under the inline payload cap
+export const MAX_RECORDING_MS = 2 * 60_000;
+
+// First container the browser can record (Safari only does mp4)
+export const pickRecordingMimeType = (): string | undefined => {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg']
+    .find(type => MediaRecorder.isTypeSupported(type));
+};
+
+export const isVoiceInputSupported = () =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+export const getVoiceReplyModel = (): string | undefined =>
+  getDefaultModel(TaskType.AUDIO)?.id;
+
+// TTS reads everything literally, so code, URLs and markdown syntax are dropped
+export const VOICE_REPLY_MAX_CHARS = 3000;
+
+export const toSpeakableText = (markdown: string): string => {
+  const text = markdown
+    .replace(/```[\s\S]*?```/g, ' (code omitted) ')
+    .replace(/\$\$[\s\S]*?\$\$/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^[ \t]{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|\*|~~)(.+?)\1/g, '$2')
+    .replace(/^\|?[ :|-]+\|?$/gm, '')
+    .replace(/\|/g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+  if (text.length <= VOICE_REPLY_MAX_CHARS) return text;
+  const cut = text.slice(0, VOICE_REPLY_MAX_CHARS);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf('. ') + 1, VOICE_REPLY_MAX_CHARS / 2))} The rest is in the written answer.`;
+};
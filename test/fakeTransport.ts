@@ -0,0 +1,30 @@
+import { GeminiTransport, toContentResponse } from '../services/transport';
+import { createStubTransport } from '../server/stubTransport';
+
+/**
+ * Offline transport for tests: the stub's canned responses, with a fixed
+ * orchestrator decision and video operations that complete immediately.
+ */
+export const createFakeTransport = (decision?: object, overrides: Partial<GeminiTransport> = {}): GeminiTransport => {
+  const stub = createStubTransport();
+  return {
+    ...stub,
+    async generateContent(operation, params, signal) {
+      if (operation === 'orchestrate' && decision) {
+        return toContentResponse({
+          candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(decision) }] } }],
+        });
+      }
+      return stub.generateContent(operation, params, signal);
+    },
+    async generateVideos(params, signal) {
+      const operation = await stub.generateVideos(params, signal);
+      return stub.getVideosOperation(operation.name!, params.model, signal);
+    },
+    ...overrides,
+  };
+};
+
+export const textResponse = (text: string, extra: object = {}) => toContentResponse({
+  candidates: [{ content: { role: 'model', parts: [{ text }] }, ...extra }],
+});
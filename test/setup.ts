@@ -0,0 +1,13 @@
+import 'fake-indexeddb/auto';
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Browser APIs jsdom doesn't implement
+URL.createObjectURL = vi.fn(() => 'blob:test');
+URL.revokeObjectURL = vi.fn();
+Element.prototype.scrollIntoView = vi.fn();
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
@@ -6,12 +6,136 @@ export enum TaskType {
   SEARCH = 'SEARCH',
 }
 
+export type ModelCapability =
+  | 'reasoning'
+  | 'thinking'
+  | 'search'
+  | 'image-generation'
+  | 'high-resolution'
+  | 'video-generation'
+  | 'speech';
+
+export type CostTier = 'low' | 'medium' | 'high';
+
+// User-adjustable generation parameters; unset fields fall back to model defaults
+export interface GenerationSettings {
+  aspectRatio?: string; // IMAGE, VIDEO
+  imageSize?: string; // IMAGE, e.g. '1K' | '2K' | '4K'
+  numberOfOutputs?: number; // IMAGE, VIDEO
+  videoResolution?: string; // VIDEO, e.g. '720p' | '1080p'
+  durationSeconds?: number; // VIDEO
+  voiceName?: string; // AUDIO
+  thinkingBudget?: number; // TEXT, SEARCH
+  safetyThreshold?: string; // TEXT, SEARCH, IMAGE, AUDIO; applied to every harm category
+}
+
+export type TaskSettings = Partial<Record<TaskType, GenerationSettings>>;
+
+// Which GenerationSettings values a model accepts; a missing field means unsupported
+export interface ModelSettingsSupport {
+  aspectRatios?: string[];
+  imageSizes?: string[];
+  maxOutputs?: number;
+  videoResolutions?: string[];
+  durations?: number[];
+  resolutionDurations?: Record<string, number[]>; // Resolutions that only render some durations
+  voices?: string[];
+  maxSpeakers?: number; // Multi-speaker TTS
+  thinkingBudget?: { min: number; max: number };
+  safetyThresholds?: string[]; // Accepted HarmBlockThreshold values
+}
+
+// Rough public list prices in USD, used for cost estimates only
+export interface ModelPricing {
+  inputPerMillionTokens?: number;
+  outputPerMillionTokens?: number;
+  perImage?: number;
+  perVideoSecond?: number;
+}
+
+// A single entry in the model registry (services/modelRegistry.ts)
+export interface ModelDefinition {
+  id: string;
+  label: string;
+  provider: string; // Which backend executes the model, e.g. 'gemini'
+  taskTypes: TaskType[];
+  capabilities: ModelCapability[];
+  requiresPaidKey: boolean;
+  costTier: CostTier;
+  routingHint: string; // Tells the orchestrator when to pick this model
+  isDefault?: boolean; // Default choice for its task types
+  defaultConfig: Record<string, any>;
+  settings?: ModelSettingsSupport;
+  pricing?: ModelPricing;
+}
+
+// One orchestration or execution call, as recorded in the usage ledger
+export interface UsageRecord {
+  id: string;
+  phase: 'orchestration' | 'execution';
+  model: string;
+  taskType?: TaskType;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  estimatedCost: number; // USD
+  timestamp: number;
+  sessionId?: string;
+}
+
+export interface UsageBudget {
+  dailyLimitUsd?: number;
+  sessionLimitUsd?: number;
+  mode: 'warn' | 'block'; // What happens when an expensive call would exceed a limit
+}
+
 export interface OrchestrationDecision {
   type: TaskType;
   model: string;
   reasoning: string;
   refinedPrompt: string;
   requiresPaidKey?: boolean;
+  isFallback?: boolean; // Decided by the keyword router instead of the LLM
+  fallbackReason?: string;
+  usage?: UsageRecord; // Cost of the routing call itself
+  isManual?: boolean; // Task type/model chosen by the user (mode selector, slash command, regenerate)
+  // Multi-step plans
+  steps?: OrchestrationDecision[]; // Ordered steps when one request chains several tasks
+  inputFromStep?: number; // Index of an earlier step whose output feeds this one
+  speakers?: SpeakerVoice[]; // AUDIO dialogue; absent for a single narrator
+  usePreviousImage?: boolean; // Edit/animate the last generated image instead of starting over
+}
+
+// A named speaker in a TTS script and the prebuilt voice reading their lines
+export interface SpeakerVoice {
+  speaker: string;
+  voice: string;
+}
+
+// Explicit routing chosen by the user; constrains or replaces the orchestrator's choice
+export interface RoutingOverride {
+  type?: TaskType;
+  model?: string;
+}
+
+// What a finished plan step hands to later steps
+export interface StepOutput {
+  text?: string;
+  image?: Attachment;
+  blocked?: boolean; // Safety filters stopped the step, so later steps are skipped
+}
+
+export type AttachmentKind = 'image' | 'audio' | 'video' | 'document';
+
+// A file supplied by the user in the composer, kept inline as base64
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  kind: AttachmentKind;
+  size: number; // Bytes
+  data: string; // Base64, without the data: prefix
 }
 
 export interface Message {
@@ -19,14 +143,119 @@ export interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
+  attachments?: Attachment[]; // User uploads (images, audio, documents)
   // Metadata for assistant responses
   taskType?: TaskType;
   usedModel?: string;
   attachmentUrl?: string; // For images/videos
+  attachmentUrls?: string[]; // All outputs when more than one was requested
+  attachmentBlob?: Blob; // Persisted bytes backing a blob: attachmentUrl
   audioData?: string; // For base64 audio
-  groundingUrls?: Array<{ title: string; uri: string }>;
+  audioMimeType?: string; // e.g. audio/L16;codec=pcm;rate=24000
+  voices?: SpeakerVoice[]; // Voices used for TTS output
+  selectedImageIndex?: number; // Output picked for further edits when there are several
+  videoJobId?: string; // Background Veo job filling in this message
+  groundingUrls?: Array<{ title: string; uri: string }>; // Deduplicated search sources
+  citations?: Citation[]; // Inline markers pointing into groundingUrls
+  searchQueries?: string[]; // Queries the model ran for a SEARCH answer
+  toolCalls?: ToolCallRecord[]; // Function calls made while answering a TEXT task
   isThinking?: boolean; // UI state
+  isStreaming?: boolean; // UI state - tokens still arriving
   orchestrationData?: OrchestrationDecision;
+  generationSettings?: GenerationSettings; // Effective settings that produced this message
+  settingsWarnings?: string[]; // Requested settings the model could not honour
+  usage?: UsageRecord[]; // Orchestration and execution calls behind this message
+  personaName?: string; // Persona active when this answer was generated (default persona omitted)
+  safety?: SafetyInfo; // Set when safety filters blocked or cut short the response
+}
+
+// One function call made by the model and what the tool returned
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+// Why Gemini blocked a prompt or response, from promptFeedback / finishReason / safetyRatings
+export interface SafetyInfo {
+  blocked: boolean; // false when the answer was cut short but some of it arrived
+  reason: string; // e.g. SAFETY, PROHIBITED_CONTENT, IMAGE_SAFETY
+  source: 'prompt' | 'response';
+  message?: string; // promptFeedback.blockReasonMessage
+  ratings: Array<{ category: string; probability: string; blocked?: boolean }>; // Only non-negligible ones
+  suggestedPrompt?: string; // Rephrasing offered by the orchestrator
+}
+
+// Sources backing the answer text that ends at `endIndex` (a character offset into content)
+export interface Citation {
+  endIndex: number;
+  sourceIndices: number[]; // Into Message.groundingUrls
+}
+
+// A user-defined assistant: system instruction for TEXT/SEARCH, voice for AUDIO
+export interface Persona {
+  id: string;
+  name: string;
+  systemInstruction: string;
+  preferredModel?: string; // Used for any task type the model supports
+  defaultVoice?: string; // TTS voice when none is set in generation settings
+  greeting?: string; // Welcome message for new chats
+}
+
+// Reusable composer text with {{variable}} placeholders
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+}
+
+export interface ChatSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: Message[];
+}
+
+export type MediaKind = 'image' | 'video' | 'audio';
+
+// A generated image, video or audio clip, located by the message that produced it
+export interface MediaItem {
+  id: string; // `${messageId}-${index}`
+  kind: MediaKind;
+  sessionId: string;
+  sessionName: string;
+  messageId: string;
+  model?: string;
+  prompt: string; // Refined prompt the model was given
+  timestamp: number;
+  url?: string; // Data or blob URL (images, videos)
+  blob?: Blob; // Persisted video bytes
+  audioData?: string; // Base64 (audio)
+  mimeType?: string;
+  index?: number; // 1-based position when the message has several outputs
+}
+
+export type VideoJobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// A Veo generation polled in the background while the chat stays usable
+export interface VideoJob {
+  id: string;
+  sessionId: string;
+  messageId: string; // Assistant message that receives the video
+  model: string;
+  prompt: string;
+  settings: GenerationSettings;
+  startFrame?: Attachment;
+  operationName?: string; // Unset until Veo accepted the request
+  status: VideoJobStatus;
+  error?: string;
+  polls: number;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface VideoOperationResponse {
@@ -39,4 +268,10 @@ export interface VideoOperationResponse {
       }
     }>
   }
-}
\ No newline at end of file
+}
+
+// Controls how much prior conversation is sent along with a new request
+export interface ContextWindow {
+  maxTurns: number; // Most recent messages to consider
+  maxTokens: number; // Approximate token budget for the history payload
+}
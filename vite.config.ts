@@ -1,17 +1,32 @@
-import { defineConfig } from 'vite';
+/// <reference types="vitest" />
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { geminiProxy } from './server/vitePlugin';
 
-export default defineConfig({
-  plugins: [
-    react({
-      jsxRuntime: 'classic',
-    }),
-  ],
-  esbuild: {
-    // Explicitly configure esbuild to transform JSX to React.createElement
-    // This provides a fallback if the plugin configuration is not picked up for any reason.
-    jsx: 'transform',
-    jsxFactory: 'React.createElement',
-    jsxFragment: 'React.Fragment',
-  },
-});
\ No newline at end of file
+export default defineConfig(({ mode }) => {
+  // Read the key on the server only - it is never exposed to client code
+  const env = loadEnv(mode, process.cwd(), '');
+
+  return {
+    plugins: [
+      react({
+        jsxRuntime: 'classic',
+      }),
+      geminiProxy({
+        apiKey: env.GEMINI_API_KEY,
+        stub: env.NEXUS_STUB_API === 'true',
+      }),
+    ],
+    esbuild: {
+      // Explicitly configure esbuild to transform JSX to React.createElement
+      // This provides a fallback if the plugin configuration is not picked up for any reason.
+      jsx: 'transform',
+      jsxFactory: 'React.createElement',
+      jsxFragment: 'React.Fragment',
+    },
+    test: {
+      environment: 'jsdom',
+      setupFiles: ['./test/setup.ts'],
+    },
+  };
+});